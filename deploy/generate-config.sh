@@ -0,0 +1,111 @@
+#!/bin/sh
+# Writes config.json for the app from environment variables when the container starts.
+# Runs from /docker-entrypoint.d before nginx starts.
+#
+# APP_CONFIG_JSON     complete configuration, written as is
+# API_BASE_URL        resource server base URL; together with OAUTH_CLIENT_ID this
+#                     builds a configuration with a single identity provider
+#
+# Without either, the config.json built into the image is kept.
+
+set -eu
+
+CONFIG_FILE="${CONFIG_FILE:-/usr/share/nginx/html/config.json}"
+
+# Print a JSON string literal
+json_string() {
+    printf '"%s"' "$(printf '%s' "$1" | sed -e 's/\\/\\\\/g' -e 's/"/\\"/g')"
+}
+
+# Print `"name": "value"` for a non-empty value, prefixed with a comma unless it's the first field
+FIRST_FIELD=1
+json_field() {
+    [ -n "$2" ] || return 0
+    if [ "$FIRST_FIELD" -eq 1 ]; then FIRST_FIELD=0; else printf ',\n'; fi
+    printf '%s%s: %s' "$3" "$(json_string "$1")" "$(json_string "$2")"
+}
+
+# Like json_field, for a whole number
+json_number_field() {
+    [ -n "$2" ] || return 0
+    if [ "$FIRST_FIELD" -eq 1 ]; then FIRST_FIELD=0; else printf ',\n'; fi
+    printf '%s%s: %s' "$3" "$(json_string "$1")" "$2"
+}
+
+if [ -n "${APP_CONFIG_JSON:-}" ]; then
+    printf '%s\n' "$APP_CONFIG_JSON" > "$CONFIG_FILE"
+    echo "generate-config: wrote $CONFIG_FILE from APP_CONFIG_JSON"
+    exit 0
+fi
+
+if [ -z "${API_BASE_URL:-}" ]; then
+    echo "generate-config: API_BASE_URL not set, keeping $CONFIG_FILE"
+    exit 0
+fi
+
+if [ -z "${OAUTH_CLIENT_ID:-}" ]; then
+    echo "generate-config: OAUTH_CLIENT_ID is required when API_BASE_URL is set" >&2
+    exit 1
+fi
+
+for name in SESSION_IDLE_TIMEOUT_SECONDS SESSION_WARNING_SECONDS SESSION_MAX_SECONDS; do
+    eval "value=\${$name:-}"
+    case "$value" in
+        '') ;;
+        *[!0-9]*|0*) echo "generate-config: $name must be a whole number of seconds above zero" >&2; exit 1 ;;
+    esac
+done
+
+OAUTH_BASE_URL="${OAUTH_BASE_URL:-$API_BASE_URL}"
+
+{
+    printf '{\n'
+    printf '    "apiBaseUrl": %s,\n' "$(json_string "$API_BASE_URL")"
+    printf '    "api": {\n'
+    FIRST_FIELD=1
+    json_field public "${API_PUBLIC_PATH:-/api/v1/public}" '        '
+    json_field protected "${API_PROTECTED_PATH:-/api/v1/protected}" '        '
+    json_field admin "${API_ADMIN_PATH:-/api/v1/admin}" '        '
+    printf '\n    },\n'
+    if [ -n "${SESSION_IDLE_TIMEOUT_SECONDS:-}${SESSION_WARNING_SECONDS:-}${SESSION_MAX_SECONDS:-}" ]; then
+        printf '    "session": {\n'
+        FIRST_FIELD=1
+        json_number_field idleTimeoutSeconds "${SESSION_IDLE_TIMEOUT_SECONDS:-}" '        '
+        json_number_field warningSeconds "${SESSION_WARNING_SECONDS:-}" '        '
+        json_number_field maxSessionSeconds "${SESSION_MAX_SECONDS:-}" '        '
+        printf '\n    },\n'
+    fi
+    printf '    "providers": [\n'
+    printf '        {\n'
+    FIRST_FIELD=1
+    json_field id "${OAUTH_PROVIDER_ID:-default}" '            '
+    json_field label "${OAUTH_PROVIDER_LABEL:-Single Sign-On}" '            '
+    json_field baseUrl "$OAUTH_BASE_URL" '            '
+    json_field issuer "${OAUTH_ISSUER:-$OAUTH_BASE_URL}" '            '
+    json_field clientId "$OAUTH_CLIENT_ID" '            '
+    json_field scope "${OAUTH_SCOPE:-read write}" '            '
+    json_field storage "${OAUTH_STORAGE:-indexeddb}" '            '
+    json_field roleClaimPath "${OAUTH_ROLE_CLAIM_PATH:-}" '            '
+    if [ "${OAUTH_DPOP:-}" = "true" ]; then
+        printf ',\n            "dpop": true'
+    fi
+    if [ "${OAUTH_PAR:-}" = "true" ]; then
+        printf ',\n            "par": true'
+    fi
+    printf ',\n            "endpoints": {\n'
+    FIRST_FIELD=1
+    json_field authorization "${OAUTH_AUTHORIZATION_ENDPOINT:-/api/v1/oauth2/authorize}" '                '
+    json_field token "${OAUTH_TOKEN_ENDPOINT:-/api/v1/oauth2/token}" '                '
+    json_field deviceAuthorization "${OAUTH_DEVICE_AUTHORIZATION_ENDPOINT:-}" '                '
+    json_field pushedAuthorizationRequest "${OAUTH_PAR_ENDPOINT:-}" '                '
+    json_field userinfo "${OAUTH_USERINFO_ENDPOINT:-}" '                '
+    json_field revocation "${OAUTH_REVOCATION_ENDPOINT:-}" '                '
+    json_field endSession "${OAUTH_END_SESSION_ENDPOINT:-}" '                '
+    json_field jwks "${OAUTH_JWKS_URI:-}" '                '
+    printf '\n            }\n'
+    printf '        }\n'
+    printf '    ]\n'
+    printf '}\n'
+} > "$CONFIG_FILE"
+
+echo "generate-config: wrote $CONFIG_FILE from environment variables"
@@ -1,131 +1,776 @@
-export interface ApiResponse {
-    data?: any;
-    error?: string;
+import { AuthChallenge, findAuthChallenge } from './www-authenticate.js';
+import { DpopKey, isDpopNonceChallenge } from './dpop.js';
+import { sleep } from './async-utils.js';
+import { OAuth2Error } from './oauth2-errors.js';
+
+/**
+ * RFC 7807 problem details, returned with `application/problem+json`
+ */
+export interface ProblemDetails {
+    type?: string;
+    title?: string;
+    status?: number;
+    detail?: string;
+    instance?: string;
+    [extension: string]: unknown;
+}
+
+export interface ApiError {
+    // http: the server answered with an error status
+    // unauthenticated: no access token was available for an authenticated request, or the
+    // authorization server refused one (code is then its OAuth2 error code)
+    // network, timeout, aborted: no HTTP response was received (status is then 0)
+    // validation: the response payload didn't pass the validator
+    kind: 'http' | 'unauthenticated' | 'network' | 'timeout' | 'aborted' | 'validation';
+    message: string;
+    code?: string;
+    problem?: ProblemDetails;
+    body?: unknown;
+}
+
+export interface ApiSuccess<T> {
+    ok: true;
+    status: number;
+    message?: string;
+    headers?: Headers;
+    data: T;
+}
+
+export interface ApiFailure {
+    ok: false;
     status: number;
     message?: string;
+    headers?: Headers;
+    error: ApiError;
+}
+
+export type ApiResponse<T = unknown> = ApiSuccess<T> | ApiFailure;
+
+/**
+ * Runtime check of a response payload; throws when the payload is invalid.
+ * Schema libraries such as zod fit this shape directly.
+ */
+export interface ResponseValidator<T> {
+    parse(data: unknown): T;
+}
+
+export interface RetryPolicy {
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    // Only these methods are retried, as repeating them has no additional effect
+    methods: string[];
+    statuses: number[];
+}
+
+export interface RequestOptions {
+    // Per-attempt timeout in milliseconds, 0 disables it
+    timeoutMs?: number;
+    signal?: AbortSignal;
+    retry?: Partial<RetryPolicy> | false;
+    // Scopes and audience the access token must have, passed on to the token provider
+    scope?: string;
+    audience?: string;
+}
+
+export interface ApiCallOptions<T> extends RequestOptions {
+    requiresAuth?: boolean;
+    headers?: HeadersInit;
+    validator?: ResponseValidator<T>;
+}
+
+export interface ApiRequest extends RequestOptions {
+    // Path relative to the client's base URL
+    url: string;
+    method: string;
+    headers: Headers;
+    body?: BodyInit | null;
+    requiresAuth: boolean;
+}
+
+/**
+ * Middleware around every request made by ApiClient.
+ * onRequest hooks run in registration order and may change the request, or return a
+ * response to short-circuit the call (e.g. from a cache or a mock).
+ * onError and onResponse hooks run in reverse order; onError may turn a network
+ * failure into a response, and every response then passes through onResponse.
+ */
+export interface ApiInterceptor {
+    onRequest?(request: ApiRequest): void | ApiResponse | Promise<void | ApiResponse>;
+    onResponse?(response: ApiResponse, request: ApiRequest): ApiResponse | Promise<ApiResponse>;
+    onError?(error: unknown, request: ApiRequest): void | ApiResponse | Promise<void | ApiResponse>;
+}
+
+export interface TokenProviderOptions {
+    // The current access token was rejected, a new one is needed
+    forceRefresh: boolean;
+    scope?: string;
+    audience?: string;
+}
+
+/**
+ * Supplies access tokens for authenticated requests, or null when there is no session
+ */
+export type TokenProvider = (options: TokenProviderOptions) => Promise<string | null>;
+
+/**
+ * The API wants more than the access token offers: more scopes (RFC 6750, section 3.1)
+ * or a stronger or more recent authentication (RFC 9470)
+ */
+export interface StepUpChallenge {
+    error: 'insufficient_scope' | 'insufficient_user_authentication';
+    // Scopes required by the resource, if the server named them
+    scope?: string;
+    acrValues?: string;
+    maxAge?: number;
+    request: ApiRequest;
+}
+
+/**
+ * Obtains a token that meets a step-up challenge, resolving to true when the request should be retried
+ */
+export type StepUpHandler = (challenge: StepUpChallenge) => Promise<boolean>;
+
+/**
+ * Paths of the demo endpoints behind callPublicApi(), callProtectedApi() and callAdminApi()
+ */
+export interface ApiPaths {
+    public: string;
+    protected: string;
+    admin: string;
+}
+
+export interface ApiClientOptions {
+    tokenProvider?: TokenProvider;
+    stepUpHandler?: StepUpHandler;
+    // Supplies the DPoP key of the current session; with a key, access tokens are sent
+    // with the DPoP scheme and a proof per request (RFC 9449, section 7)
+    dpop?: () => DpopKey | null;
+    paths?: Partial<ApiPaths>;
+    timeoutMs?: number;
+    retry?: Partial<RetryPolicy>;
+}
+
+export class RequestTimeoutError extends Error {
+    readonly timeoutMs: number;
+
+    constructor(timeoutMs: number) {
+        super(`Request timed out after ${timeoutMs} ms`);
+        this.name = 'RequestTimeoutError';
+        this.timeoutMs = timeoutMs;
+    }
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+const DEFAULT_API_PATHS: ApiPaths = {
+    public: '/api/v1/public',
+    protected: '/api/v1/protected',
+    admin: '/api/v1/admin'
+};
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxRetries: 2,
+    baseDelayMs: 300,
+    maxDelayMs: 10000,
+    methods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+    statuses: [408, 429, 500, 502, 503, 504]
+};
+
+/**
+ * Build a failed response
+ */
+function failure(status: number, message: string, error: ApiError, headers?: Headers): ApiFailure {
+    return { ok: false, status, message, headers, error };
+}
+
+/**
+ * Check for JSON media types, including structured suffixes such as application/problem+json
+ */
+function isJsonContentType(contentType: string | null): boolean {
+    return !!contentType && /^application\/([\w.-]+\+)?json\b/i.test(contentType.trim());
 }
 
 export class ApiClient {
     private baseUrl: string;
-    private accessToken: string | null = null;
+    private tokenProvider: TokenProvider | null;
+    private timeoutMs: number;
+    private retryPolicy: RetryPolicy;
+    private paths: ApiPaths;
+    private stepUpHandler: StepUpHandler | null;
+    private dpop: () => DpopKey | null;
+    // In-flight refreshes, per scope and audience
+    private refreshPromises = new Map<string, Promise<string | null>>();
+    private stepUpPromise: Promise<boolean> | null = null;
+    private unauthenticatedListeners = new Set<() => void>();
+    private interceptors: ApiInterceptor[] = [];
 
-    constructor(baseUrl: string) {
+    constructor(baseUrl: string, options: ApiClientOptions = {}) {
         this.baseUrl = baseUrl;
+        this.tokenProvider = options.tokenProvider || null;
+        this.stepUpHandler = options.stepUpHandler || null;
+        this.dpop = options.dpop || (() => null);
+        this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+        this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+        this.paths = { ...DEFAULT_API_PATHS, ...options.paths };
+    }
+
+    /**
+     * Paths used by callPublicApi(), callProtectedApi() and callAdminApi()
+     */
+    getPaths(): ApiPaths {
+        return { ...this.paths };
+    }
+
+    /**
+     * Add an interceptor to the pipeline; returns a function that removes it
+     */
+    use(interceptor: ApiInterceptor): () => void {
+        this.interceptors.push(interceptor);
+        return () => {
+            this.interceptors = this.interceptors.filter(existing => existing !== interceptor);
+        };
+    }
+
+    /**
+     * Listen for requests that failed because the session can't be renewed
+     */
+    onUnauthenticated(listener: () => void): () => void {
+        this.unauthenticatedListeners.add(listener);
+        return () => {
+            this.unauthenticatedListeners.delete(listener);
+        };
+    }
+
+    /**
+     * Get the access token, waiting for a refresh in progress so queued requests use the new token
+     */
+    private async getAccessToken(request: ApiRequest): Promise<string | null> {
+        const refreshPromise = this.refreshPromises.get(this.tokenKey(request));
+        if (refreshPromise) {
+            return refreshPromise;
+        }
+
+        return this.tokenProvider
+            ? this.tokenProvider({ forceRefresh: false, scope: request.scope, audience: request.audience })
+            : null;
+    }
+
+    /**
+     * Get a replacement for a rejected access token; concurrent 401s share one refresh
+     */
+    private refreshAccessToken(rejectedToken: string, request: ApiRequest): Promise<string | null> {
+        const key = this.tokenKey(request);
+        let refreshPromise = this.refreshPromises.get(key);
+
+        if (!refreshPromise) {
+            refreshPromise = this.requestNewAccessToken(rejectedToken, request)
+                .catch(error => {
+                    console.error('Access token refresh failed:', error);
+                    return null;
+                })
+                .finally(() => {
+                    this.refreshPromises.delete(key);
+                });
+            this.refreshPromises.set(key, refreshPromise);
+        }
+
+        return refreshPromise;
     }
 
     /**
-     * Set the access token for authenticated requests
+     * Force a refresh, unless the token was already replaced since the request was sent
      */
-    setAccessToken(token: string | null): void {
-        this.accessToken = token;
+    private async requestNewAccessToken(rejectedToken: string, request: ApiRequest): Promise<string | null> {
+        if (!this.tokenProvider) {
+            return null;
+        }
+
+        const { scope, audience } = request;
+        const currentToken = await this.tokenProvider({ forceRefresh: false, scope, audience });
+        if (currentToken && currentToken !== rejectedToken) {
+            return currentToken;
+        }
+
+        return this.tokenProvider({ forceRefresh: true, scope, audience });
     }
 
     /**
-     * Make a generic API request
+     * Requests with the same scope and audience share their access token
+     */
+    private tokenKey(request: ApiRequest): string {
+        return `${request.audience || ''} ${request.scope || ''}`;
+    }
+
+    /**
+     * Run the step-up handler; concurrent challenges share one step-up so the user sees a single prompt
+     */
+    private stepUp(challenge: StepUpChallenge): Promise<boolean> {
+        if (!this.stepUpPromise) {
+            this.stepUpPromise = this.stepUpHandler!(challenge)
+                .catch(error => {
+                    console.error('Step-up authentication failed:', error);
+                    return false;
+                })
+                .finally(() => {
+                    this.stepUpPromise = null;
+                });
+        }
+
+        return this.stepUpPromise;
+    }
+
+    /**
+     * Notify listeners that the user has to log in again
+     */
+    private emitUnauthenticated(): void {
+        this.unauthenticatedListeners.forEach(listener => listener());
+    }
+
+    /**
+     * Make a generic API request through the interceptor pipeline
      */
     private async makeRequest(
         url: string,
         options: RequestInit = {},
-        requiresAuth: boolean = false
+        requiresAuth: boolean = false,
+        requestOptions: RequestOptions = {}
     ): Promise<ApiResponse> {
-        const headers: HeadersInit = {
-            'Content-Type': 'application/json',
-            ...options.headers
+        const headers = new Headers({ 'Content-Type': 'application/json' });
+        new Headers(options.headers).forEach((value, name) => headers.set(name, value));
+
+        const request: ApiRequest = {
+            url,
+            method: options.method || 'GET',
+            headers,
+            body: options.body,
+            requiresAuth,
+            ...requestOptions
         };
 
-        if (requiresAuth && this.accessToken) {
-            (headers as Record<string, string>)['Authorization'] = `Bearer ${this.accessToken}`;
+        // Take a snapshot so interceptors added or removed meanwhile don't affect this call
+        const interceptors = [...this.interceptors];
+        let response: ApiResponse | undefined;
+
+        for (const interceptor of interceptors) {
+            const shortCircuit = interceptor.onRequest ? await interceptor.onRequest(request) : undefined;
+            if (shortCircuit) {
+                response = shortCircuit;
+                break;
+            }
         }
 
-        try {
-            const response = await fetch(`${this.baseUrl}${url}`, {
-                ...options,
-                headers
+        if (!response) {
+            try {
+                response = await this.executeRequest(request);
+            } catch (error) {
+                response = await this.handleRequestError(error, request, interceptors);
+            }
+        }
+
+        for (const interceptor of [...interceptors].reverse()) {
+            if (interceptor.onResponse) {
+                response = await interceptor.onResponse(response, request);
+            }
+        }
+
+        return response;
+    }
+
+    /**
+     * Send the request and parse the response.
+     * Authenticated requests rejected with error="invalid_token" are retried once with a refreshed token,
+     * and those rejected for missing scopes or authentication strength once after a step-up.
+     */
+    private async executeRequest(request: ApiRequest): Promise<ApiResponse> {
+        let accessToken: string | null = null;
+        if (request.requiresAuth) {
+            try {
+                accessToken = await this.getAccessToken(request);
+            } catch (error) {
+                return this.tokenRefused(error);
+            }
+        }
+        if (request.requiresAuth && !accessToken) {
+            return failure(401, 'Authentication required', {
+                kind: 'unauthenticated',
+                message: 'No access token available'
             });
+        }
+
+        let response = await this.sendWithRetry(request, accessToken);
 
-            let data: any = null;
-            const contentType = response.headers.get('content-type');
+        if (request.requiresAuth && response.status === 401 && this.isInvalidTokenResponse(response)) {
+            accessToken = await this.refreshAccessToken(accessToken!, request);
+            if (accessToken) {
+                response = await this.sendWithRetry(request, accessToken);
+            }
+            if (!accessToken || response.status === 401) {
+                this.emitUnauthenticated();
+            }
+        }
 
-            if (contentType && contentType.includes('application/json')) {
-                data = await response.json();
-            } else {
-                data = await response.text();
+        const challenge = request.requiresAuth && this.stepUpHandler ? this.readStepUpChallenge(response, request) : null;
+        if (challenge && await this.stepUp(challenge)) {
+            try {
+                accessToken = await this.getAccessToken(request);
+            } catch (error) {
+                return this.tokenRefused(error);
             }
+            if (accessToken) {
+                response = await this.sendWithRetry(request, accessToken);
+            }
+        }
 
-            return {
-                data,
-                status: response.status,
-                message: response.statusText
-            };
+        return await this.parseResponse(response);
+    }
+
+    /**
+     * Report a token provider failure, e.g. a refused token for another audience. No request was
+     * sent, and it isn't a connectivity problem that a retry would fix.
+     */
+    private tokenRefused(error: unknown): ApiFailure {
+        console.error('Access token request failed:', error);
+        return failure(401, 'Access token refused', {
+            kind: 'unauthenticated',
+            message: error instanceof Error ? error.message : 'Access token refused',
+            code: error instanceof OAuth2Error ? error.code : undefined
+        });
+    }
+
+    /**
+     * Let error interceptors recover from a failed request, or report it as a network error
+     */
+    private async handleRequestError(error: unknown, request: ApiRequest, interceptors: ApiInterceptor[]): Promise<ApiResponse> {
+        for (const interceptor of [...interceptors].reverse()) {
+            const recovered = interceptor.onError ? await interceptor.onError(error, request) : undefined;
+            if (recovered) {
+                return recovered;
+            }
+        }
+
+        // No HTTP response was received, so don't pretend the server answered with a 503
+        if (error instanceof RequestTimeoutError) {
+            return failure(0, 'Request timed out', { kind: 'timeout', message: error.message });
+        }
+
+        if (request.signal?.aborted) {
+            return failure(0, 'Request aborted', {
+                kind: 'aborted',
+                message: error instanceof Error ? error.message : 'Request aborted'
+            });
+        }
+
+        return failure(0, 'Network error', {
+            kind: 'network',
+            message: error instanceof Error ? error.message : 'Network error'
+        });
+    }
+
+    /**
+     * Send a request, retrying idempotent methods on network failures and retryable statuses
+     * with exponential backoff and jitter
+     */
+    private async sendWithRetry(request: ApiRequest, accessToken: string | null): Promise<Response> {
+        const policy: RetryPolicy = request.retry === false
+            ? { ...this.retryPolicy, maxRetries: 0 }
+            : { ...this.retryPolicy, ...request.retry };
+        const retryable = policy.methods.includes(request.method.toUpperCase());
+
+        let nonceRetried = false;
+
+        for (let attempt = 0; ; attempt++) {
+            const canRetry = retryable && attempt < policy.maxRetries;
+            let response: Response;
+
+            try {
+                response = await this.sendRequest(request, accessToken);
+            } catch (error) {
+                if (!canRetry || request.signal?.aborted) {
+                    throw error;
+                }
+                await sleep(this.backoffDelay(attempt, policy), request.signal);
+                continue;
+            }
+
+            // The server wants its DPoP nonce in the proof; that's not a failure, so it isn't counted
+            if (!nonceRetried && accessToken && this.dpop() && await isDpopNonceChallenge(response)) {
+                nonceRetried = true;
+                attempt--;
+                continue;
+            }
+
+            if (!canRetry || !policy.statuses.includes(response.status)) {
+                return response;
+            }
+
+            const delay = this.retryAfterDelay(response) ?? this.backoffDelay(attempt, policy);
+            if (delay > policy.maxDelayMs) {
+                // The server asked us to come back later than we are willing to wait
+                return response;
+            }
+
+            await sleep(delay, request.signal);
+        }
+    }
+
+    /**
+     * Exponential backoff with full jitter
+     */
+    private backoffDelay(attempt: number, policy: RetryPolicy): number {
+        const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+        return Math.random() * ceiling;
+    }
+
+    /**
+     * Read the Retry-After header of a 429 or 503 response, in seconds or as an HTTP date
+     */
+    private retryAfterDelay(response: Response): number | null {
+        if (response.status !== 429 && response.status !== 503) {
+            return null;
+        }
+
+        const retryAfter = response.headers.get('Retry-After');
+        if (!retryAfter) {
+            return null;
+        }
+
+        const seconds = Number(retryAfter);
+        if (!isNaN(seconds)) {
+            return Math.max(seconds * 1000, 0);
+        }
+
+        const date = Date.parse(retryAfter);
+        return isNaN(date) ? null : Math.max(date - Date.now(), 0);
+    }
+
+    /**
+     * Send a single request with the bearer token, if any, aborting it after the timeout
+     */
+    private async sendRequest(request: ApiRequest, accessToken: string | null): Promise<Response> {
+        const headers = new Headers(request.headers);
+        const url = `${this.baseUrl}${request.url}`;
+        const dpop = accessToken ? this.dpop() : null;
+
+        if (dpop) {
+            headers.set('Authorization', `DPoP ${accessToken}`);
+            headers.set('DPoP', await dpop.createProof(request.method, url, { accessToken: accessToken! }));
+        } else if (accessToken) {
+            headers.set('Authorization', `Bearer ${accessToken}`);
+        }
+
+        const controller = new AbortController();
+        const onAbort = () => controller.abort(request.signal?.reason);
+        if (request.signal?.aborted) {
+            onAbort();
+        }
+        request.signal?.addEventListener('abort', onAbort, { once: true });
+
+        const timeoutMs = request.timeoutMs ?? this.timeoutMs;
+        let timedOut = false;
+        const timer = timeoutMs > 0
+            ? setTimeout(() => {
+                timedOut = true;
+                controller.abort();
+            }, timeoutMs)
+            : null;
+
+        try {
+            const response = await fetch(url, {
+                method: request.method,
+                headers,
+                body: request.body,
+                signal: controller.signal
+            });
+            dpop?.updateNonce(url, response);
+            return response;
         } catch (error) {
-            return {
-                error: error instanceof Error ? error.message : 'Network error',
-                status: 503,
-                message: 'Service unavailable (network error)'
-            };
+            throw timedOut ? new RequestTimeoutError(timeoutMs) : error;
+        } finally {
+            if (timer !== null) {
+                clearTimeout(timer);
+            }
+            request.signal?.removeEventListener('abort', onAbort);
         }
     }
 
     /**
-     * Make a public API call (no authentication required)
+     * Check for a `WWW-Authenticate: Bearer error="invalid_token"` challenge (RFC 6750, section 3.1)
      */
-    async callPublicApi(): Promise<ApiResponse> {
-        return await this.makeRequest('/api/v1/public', {
-            method: 'GET'
-        }, false);
+    private isInvalidTokenResponse(response: Response): boolean {
+        return this.readAuthChallenge(response)?.params['error'] === 'invalid_token';
     }
 
     /**
-     * Make a protected API call (authentication required)
+     * Read the DPoP or Bearer challenge of a response; DPoP uses the same error codes (RFC 9449, section 7.1)
      */
-    async callProtectedApi(): Promise<ApiResponse> {
-        if (!this.accessToken) {
+    private readAuthChallenge(response: Response): AuthChallenge | undefined {
+        const header = response.headers.get('WWW-Authenticate');
+        return findAuthChallenge(header, 'DPoP') ?? findAuthChallenge(header, 'Bearer');
+    }
+
+    /**
+     * Read an insufficient_scope (403) or insufficient_user_authentication (401) Bearer challenge
+     */
+    private readStepUpChallenge(response: Response, request: ApiRequest): StepUpChallenge | null {
+        const challenge = this.readAuthChallenge(response);
+        const error = challenge?.params['error'];
+
+        if ((response.status === 403 && error === 'insufficient_scope')
+            || (response.status === 401 && error === 'insufficient_user_authentication')) {
+            const maxAge = Number(challenge!.params['max_age']);
             return {
-                error: 'No access token available',
-                status: 401,
-                message: 'Authentication required'
+                error,
+                scope: challenge!.params['scope'],
+                acrValues: challenge!.params['acr_values'],
+                maxAge: challenge!.params['max_age'] !== undefined && !isNaN(maxAge) ? maxAge : undefined,
+                request
             };
         }
 
-        return await this.makeRequest('/api/v1/protected', {
-            method: 'GET'
-        }, true);
+        return null;
     }
 
     /**
-     * Make an admin API call (authentication and admin role required)
+     * Read the response body based on its content type, turning error statuses into failures
      */
-    async callAdminApi(): Promise<ApiResponse> {
-        if (!this.accessToken) {
+    private async parseResponse(response: Response): Promise<ApiResponse> {
+        const contentType = response.headers.get('content-type');
+        const text = await response.text();
+
+        let data: unknown = text;
+        if (text && isJsonContentType(contentType)) {
+            try {
+                data = JSON.parse(text);
+            } catch (error) {
+                // Keep malformed JSON as text, a validator will reject it if it matters
+            }
+        }
+
+        if (response.ok) {
             return {
-                error: 'No access token available',
-                status: 401,
-                message: 'Authentication required'
+                ok: true,
+                status: response.status,
+                message: response.statusText,
+                headers: response.headers,
+                data
             };
         }
 
-        return await this.makeRequest('/api/v1/admin', {
-            method: 'GET'
-        }, true);
+        if (contentType && /^application\/problem\+json\b/i.test(contentType.trim()) && data && typeof data === 'object') {
+            const problem = data as ProblemDetails;
+            return failure(response.status, response.statusText, {
+                kind: 'http',
+                message: problem.detail || problem.title || `HTTP ${response.status}`,
+                problem
+            }, response.headers);
+        }
+
+        return failure(response.status, response.statusText, {
+            kind: 'http',
+            message: typeof data === 'string' && data ? data : `HTTP ${response.status} ${response.statusText}`.trim(),
+            body: data
+        }, response.headers);
     }
 
     /**
-     * Generic method for custom API calls
+     * Make a request and validate the payload of a successful response
      */
-    async customCall(
-        endpoint: string,
-        method: string = 'GET',
-        body?: any,
-        requiresAuth: boolean = false
-    ): Promise<ApiResponse> {
-        const options: RequestInit = {
-            method
-        };
+    async request<T = unknown>(method: string, path: string, body?: unknown, options: ApiCallOptions<T> = {}): Promise<ApiResponse<T>> {
+        const { requiresAuth = false, headers, validator, ...requestOptions } = options;
 
-        if (body) {
-            options.body = JSON.stringify(body);
+        const response = await this.makeRequest(path, {
+            method,
+            headers,
+            body: body !== undefined ? JSON.stringify(body) : undefined
+        }, requiresAuth, requestOptions);
+
+        if (!response.ok) {
+            return response;
+        }
+
+        if (!validator) {
+            // Without a validator the caller vouches for the payload type
+            return response as ApiSuccess<T>;
         }
 
-        return await this.makeRequest(endpoint, options, requiresAuth);
+        try {
+            return { ...response, data: validator.parse(response.data) };
+        } catch (error) {
+            return failure(response.status, 'Invalid response payload', {
+                kind: 'validation',
+                message: error instanceof Error ? error.message : 'Response validation failed',
+                body: response.data
+            }, response.headers);
+        }
+    }
+
+    /**
+     * GET a resource
+     */
+    async get<T = unknown>(path: string, options: ApiCallOptions<T> = {}): Promise<ApiResponse<T>> {
+        return await this.request<T>('GET', path, undefined, options);
     }
-}
\ No newline at end of file
+
+    /**
+     * POST a JSON body
+     */
+    async post<T = unknown, B = unknown>(path: string, body?: B, options: ApiCallOptions<T> = {}): Promise<ApiResponse<T>> {
+        return await this.request<T>('POST', path, body, options);
+    }
+
+    /**
+     * PUT a JSON body
+     */
+    async put<T = unknown, B = unknown>(path: string, body?: B, options: ApiCallOptions<T> = {}): Promise<ApiResponse<T>> {
+        return await this.request<T>('PUT', path, body, options);
+    }
+
+    /**
+     * PATCH with a JSON body
+     */
+    async patch<T = unknown, B = unknown>(path: string, body?: B, options: ApiCallOptions<T> = {}): Promise<ApiResponse<T>> {
+        return await this.request<T>('PATCH', path, body, options);
+    }
+
+    /**
+     * DELETE a resource
+     */
+    async delete<T = unknown>(path: string, options: ApiCallOptions<T> = {}): Promise<ApiResponse<T>> {
+        return await this.request<T>('DELETE', path, undefined, options);
+    }
+
+    /**
+     * Make a public API call (no authentication required)
+     */
+    async callPublicApi<T = unknown>(options: ApiCallOptions<T> = {}): Promise<ApiResponse<T>> {
+        return await this.get<T>(this.paths.public, { ...options, requiresAuth: false });
+    }
+
+    /**
+     * Make a protected API call (authentication required)
+     */
+    async callProtectedApi<T = unknown>(options: ApiCallOptions<T> = {}): Promise<ApiResponse<T>> {
+        return await this.get<T>(this.paths.protected, { ...options, requiresAuth: true });
+    }
+
+    /**
+     * Make an admin API call (authentication and admin role required)
+     */
+    async callAdminApi<T = unknown>(options: ApiCallOptions<T> = {}): Promise<ApiResponse<T>> {
+        return await this.get<T>(this.paths.admin, { ...options, requiresAuth: true });
+    }
+
+    /**
+     * Generic method for custom API calls
+     */
+    async customCall<T = unknown, B = unknown>(
+        endpoint: string,
+        method: string = 'GET',
+        body?: B,
+        requiresAuth: boolean = false,
+        options: ApiCallOptions<T> = {}
+    ): Promise<ApiResponse<T>> {
+        return await this.request<T>(method, endpoint, body, { ...options, requiresAuth });
+    }
+}
@@ -1,18 +1,74 @@
-import { OAuth2Client, AuthConfig } from './oauth2-client.js';
-import { ApiClient, ApiResponse } from './api-client.js';
+import { OAuth2Client, UserProfile } from './oauth2-client.js';
+import { ProviderRegistry } from './provider-registry.js';
+import { ConfigError, RuntimeConfig, loadRuntimeConfig, toProviderDefinitions } from './runtime-config.js';
+import { ApiClient, ApiResponse, StepUpChallenge } from './api-client.js';
+import { OAuth2Error, PopupBlockedError } from './oauth2-errors.js';
+import { IdTokenValidationError } from './id-token-validator.js';
+import { SessionEndReason, SessionManager } from './session-manager.js';
+
+// What to tell the user for each OAuth2 error code
+const ERROR_MESSAGES: Record<string, string> = {
+    access_denied: 'Sign-in was cancelled or access was denied.',
+    expired_token: 'The sign-in code has expired, please start again.',
+    login_required: 'Please sign in to continue.',
+    interaction_required: 'Please sign in to continue.',
+    consent_required: 'Please approve the requested permissions to continue.',
+    account_selection_required: 'Please choose an account to continue.',
+    invalid_grant: 'Your sign-in has expired, please log in again.',
+    invalid_scope: 'The app asked for permissions that are not available.',
+    temporarily_unavailable: 'The login service is temporarily unavailable, please try again in a moment.',
+    server_error: 'The login service ran into a problem, please try again later.',
+    invalid_request: 'The app is not set up correctly for sign-in, please contact support.',
+    invalid_client: 'The app is not set up correctly for sign-in, please contact support.',
+    unauthorized_client: 'The app is not set up correctly for sign-in, please contact support.',
+    unsupported_response_type: 'The app is not set up correctly for sign-in, please contact support.',
+    unsupported_grant_type: 'The app is not set up correctly for sign-in, please contact support.',
+    state_mismatch: 'This sign-in response is invalid or has expired, please log in again.',
+    missing_code: 'This sign-in response is invalid or has expired, please log in again.',
+    missing_verifier: 'This sign-in response is invalid or has expired, please log in again.',
+    missing_refresh_token: 'Your session has expired, please log in again.',
+    subject_mismatch: 'You were signed in as a different user, please log in again.',
+    invalid_nonce: 'The sign-in response could not be verified, please log in again.',
+    popup_blocked: 'Your browser blocked the login popup. Allow popups for this site and try again.',
+    popup_closed: 'Login cancelled.',
+    timeout: 'The login took too long, please try again.'
+};
+
+/**
+ * Format the time left until a deadline as m:ss
+ */
+function formatCountdown(deadline: number): string {
+    const seconds = Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
 
 class OAuth2App {
-    private oauth2Client: OAuth2Client;
+    private providers: ProviderRegistry;
     private apiClient: ApiClient;
+    // Idle timeout and maximum lifetime, per provider
+    private sessionManagers = new Map<string, SessionManager>();
 
     // DOM elements
     private authStatus!: HTMLElement;
-    private loginBtn!: HTMLButtonElement;
+    private providerPicker!: HTMLElement;
+    private popupLoginOption!: HTMLElement;
+    private popupLoginCheckbox!: HTMLInputElement;
+    private deviceLoginSection!: HTMLElement;
+    private deviceVerificationLink!: HTMLAnchorElement;
+    private deviceUserCode!: HTMLElement;
+    private deviceCountdown!: HTMLElement;
+    private deviceCancelBtn!: HTMLButtonElement;
+    private sessionWarningDialog!: HTMLDialogElement;
+    private sessionWarningMessage!: HTMLElement;
+    private staySignedInBtn!: HTMLButtonElement;
+    private sessionWarningLogoutBtn!: HTMLButtonElement;
     private logoutBtn!: HTMLButtonElement;
     private tokenInfo!: HTMLElement;
     private idTokenInfo!: HTMLElement;
     private tokenInfoSection!: HTMLElement;
     private idTokenInfoSection!: HTMLElement;
+    private userProfileInfo!: HTMLElement;
+    private userProfileSection!: HTMLElement;
     private publicApiBtn!: HTMLButtonElement;
     private protectedApiBtn!: HTMLButtonElement;
     private adminApiBtn!: HTMLButtonElement;
@@ -20,23 +76,30 @@ class OAuth2App {
     private protectedResponse!: HTMLElement;
     private adminResponse!: HTMLElement;
 
-    constructor() {
-        let baseUrl = window.location.hostname.includes("localhost") ? "http://localhost:8080" : "https://production-url.com";
-
-        // OAuth 2.0 configuration
-        const authConfig: AuthConfig = {
-            clientId: 'demo-client-id',
-            redirectUri: `${window.location.origin}/callback`,
-            baseUrl: baseUrl,
-            authorizationEndpoint: '/api/v1/oauth2/authorize',
-            tokenEndpoint: '/api/v1/oauth2/token',
-            scope: 'read write admin'
-        };
-
-        this.oauth2Client = new OAuth2Client(authConfig);
-        this.apiClient = new ApiClient(baseUrl);
+    // Aborts the device login in progress
+    private deviceLogin: AbortController | null = null;
+    // Updates the countdown of the session warning
+    private sessionWarningCountdown: ReturnType<typeof setInterval> | undefined;
+
+    constructor(config: RuntimeConfig) {
+        this.providers = new ProviderRegistry(toProviderDefinitions(config));
+        this.apiClient = new ApiClient(config.apiBaseUrl, {
+            tokenProvider: ({ forceRefresh, scope, audience }) => forceRefresh
+                ? this.oauth2Client.renewAccessToken({ scope, audience })
+                : this.oauth2Client.getValidAccessToken({ scope, audience }),
+            stepUpHandler: challenge => this.handleStepUp(challenge),
+            dpop: () => this.oauth2Client.getDpopKey(),
+            timeoutMs: 10000,
+            paths: config.api
+        });
+        this.apiClient.onUnauthenticated(() => {
+            this.showMessage('Your session has expired, please log in again', 'error');
+        });
         this.initializeDOM();
         this.setupEventListeners();
+        this.resetApiButtonLabels();
+        this.subscribeToAuthEvents();
+        this.setupSessionManagers(config);
         this.handleInitialLoad().catch(error => {
             console.error('Failed to handle initial load:', error);
             this.showMessage(`Initialization failed: ${error}`, 'error');
@@ -45,17 +108,109 @@ class OAuth2App {
         this.showMessage('App initialized', 'success');
     }
 
+    /**
+     * The client of the provider the user signed in with
+     */
+    private get oauth2Client(): OAuth2Client {
+        return this.providers.getActiveClient();
+    }
+
+    /**
+     * Re-render on the events of every provider's client, so the UI follows logins, refreshes,
+     * expiry and logouts in this and other tabs without being told after each action
+     */
+    private subscribeToAuthEvents(): void {
+        this.providers.list().forEach(provider => {
+            const client = this.providers.getClient(provider.id);
+            const isActive = () => this.providers.getActiveProvider().id === provider.id;
+
+            client.on('login', ({ fromOtherTab }) => {
+                this.updateUI();
+                if (fromOtherTab && isActive()) {
+                    this.showMessage('Signed in from another tab', 'success');
+                }
+            });
+            client.on('tokenRefreshed', () => this.updateUI());
+            client.on('logout', ({ fromOtherTab }) => {
+                this.updateUI();
+                // Sessions of the other providers are ended when switching, that's not news to the user
+                if (!isActive()) return;
+
+                this.clearApiResponses();
+                if (fromOtherTab) {
+                    this.showMessage('Signed out from another tab', 'success');
+                }
+            });
+            client.on('tokenExpired', ({ refreshable }) => {
+                // Without a refresh token the session can't go on
+                if (!refreshable && client.isAuthenticated()) {
+                    if (isActive()) {
+                        this.showMessage('Your session has expired, please log in again', 'error');
+                    }
+                    client.logout({ localOnly: true }).catch(error => {
+                        console.error('Failed to end the expired session:', error);
+                    });
+                }
+            });
+            client.on('userLoaded', ({ profile }) => {
+                if (isActive()) {
+                    this.renderUserProfile(profile);
+                }
+            });
+        });
+
+        this.providers.on('activeProviderChanged', () => this.updateUI());
+    }
+
+    /**
+     * Sign out after the configured idle period or maximum session lifetime, with a warning first
+     */
+    private setupSessionManagers(config: RuntimeConfig): void {
+        this.providers.list().forEach(provider => {
+            const manager = new SessionManager(this.providers.getClient(provider.id), config.session);
+            manager.on('warning', ({ reason, logoutAt }) => this.showSessionWarning(reason, logoutAt));
+            manager.on('warningCancelled', () => this.hideSessionWarning());
+            manager.on('timeout', ({ reason }) => {
+                this.hideSessionWarning();
+                this.showMessage(reason === 'idle'
+                    ? 'You were signed out after a period of inactivity'
+                    : 'Your session reached its maximum length, please sign in again', 'error');
+            });
+            this.sessionManagers.set(provider.id, manager);
+        });
+    }
+
+    /**
+     * The session manager of the active provider
+     */
+    private get sessionManager(): SessionManager {
+        return this.sessionManagers.get(this.providers.getActiveProvider().id)!;
+    }
+
     /**
      * Initialize DOM element references
      */
     private initializeDOM(): void {
         this.authStatus = document.getElementById('authStatus')!;
-        this.loginBtn = document.getElementById('loginBtn') as HTMLButtonElement;
+        this.providerPicker = document.getElementById('providerPicker')!;
+        this.popupLoginOption = document.getElementById('popupLoginOption')!;
+        this.popupLoginCheckbox = document.getElementById('popupLoginCheckbox') as HTMLInputElement;
+        this.deviceLoginSection = document.getElementById('deviceLoginSection')!;
+        this.deviceVerificationLink = document.getElementById('deviceVerificationLink') as HTMLAnchorElement;
+        this.deviceUserCode = document.getElementById('deviceUserCode')!;
+        this.deviceCountdown = document.getElementById('deviceCountdown')!;
+        this.deviceCancelBtn = document.getElementById('deviceCancelBtn') as HTMLButtonElement;
+        this.sessionWarningDialog = document.getElementById('sessionWarningDialog') as HTMLDialogElement;
+        this.sessionWarningMessage = document.getElementById('sessionWarningMessage')!;
+        this.staySignedInBtn = document.getElementById('staySignedInBtn') as HTMLButtonElement;
+        this.sessionWarningLogoutBtn = document.getElementById('sessionWarningLogoutBtn') as HTMLButtonElement;
         this.logoutBtn = document.getElementById('logoutBtn') as HTMLButtonElement;
         this.tokenInfo = document.getElementById('tokenInfo')!;
         this.tokenInfoSection = document.getElementById('tokenInfoSection')!;
         this.idTokenInfo = document.getElementById('idTokenInfo')!;
         this.idTokenInfoSection = document.getElementById('idTokenInfoSection')!;
+        this.userProfileInfo = document.getElementById('userProfileInfo')!;
+        this.userProfileSection = document.getElementById('userProfileSection')!;
         this.publicApiBtn = document.getElementById('publicApiBtn') as HTMLButtonElement;
         this.protectedApiBtn = document.getElementById('protectedApiBtn') as HTMLButtonElement;
         this.adminApiBtn = document.getElementById('adminApiBtn') as HTMLButtonElement;
@@ -68,7 +223,27 @@ class OAuth2App {
      * Setup event listeners for all interactive elements
      */
     private setupEventListeners(): void {
-        this.loginBtn.addEventListener('click', () => this.handleLogin());
+        this.providers.list().forEach(provider => {
+            const button = document.createElement('button');
+            button.textContent = `Sign in with ${provider.label}`;
+            button.addEventListener('click', () => this.handleLogin(provider.id));
+            this.providerPicker.appendChild(button);
+
+            if (provider.config.deviceAuthorizationEndpoint) {
+                const deviceButton = document.createElement('button');
+                deviceButton.textContent = `Sign in with ${provider.label} on another device`;
+                deviceButton.addEventListener('click', () => this.handleDeviceLogin(provider.id));
+                this.providerPicker.appendChild(deviceButton);
+            }
+        });
+        this.deviceCancelBtn.addEventListener('click', () => this.deviceLogin?.abort());
+        this.staySignedInBtn.addEventListener('click', () => this.sessionManager.staySignedIn());
+        this.sessionWarningLogoutBtn.addEventListener('click', () => this.handleLogout());
+        // Escape answers the warning like "Stay signed in", the dialog only closes when that worked
+        this.sessionWarningDialog.addEventListener('cancel', event => {
+            event.preventDefault();
+            this.sessionManager.staySignedIn();
+        });
         this.logoutBtn.addEventListener('click', () => this.handleLogout());
         this.publicApiBtn.addEventListener('click', () => this.handlePublicApiCall());
         this.protectedApiBtn.addEventListener('click', () => this.handleProtectedApiCall());
@@ -80,18 +255,34 @@ class OAuth2App {
      */
     private async handleInitialLoad(): Promise<void> {
         // Check if we're returning from OAuth callback
-        if (window.location.pathname === '/callback' && window.location.search.includes('code=')) {
+        const callbackParams = new URLSearchParams(window.location.search);
+        if (window.location.pathname === '/callback' && (callbackParams.has('code') || callbackParams.has('error'))) {
             try {
-                await this.oauth2Client.handleCallback();
+                const { returnTo } = await this.providers.handleCallback();
                 this.showMessage('Authentication successful!', 'success');
-                // Redirect to main page after successful auth
-                window.history.replaceState({}, document.title, '/');
+                // Go back to where the user started the login
+                window.history.replaceState({}, document.title, returnTo || '/');
             } catch (error) {
-                this.showMessage(`Authentication failed: ${error}`, 'error');
+                this.showError(error);
                 window.history.replaceState({}, document.title, '/');
             }
         }
 
+        // Check if we're returning from the provider's end_session_endpoint
+        if (window.location.pathname === '/logout-callback') {
+            try {
+                if (this.oauth2Client.handleLogoutCallback()) {
+                    this.showMessage('Logged out successfully', 'success');
+                }
+            } catch (error) {
+                this.showError(error);
+            }
+            window.history.replaceState({}, document.title, '/');
+        }
+
+        // Wait for an expired access token to be renewed before rendering
+        await this.oauth2Client.getValidAccessToken();
+
         this.updateUI();
     }
 
@@ -100,7 +291,14 @@ class OAuth2App {
      */
     private updateUI(): void {
         this.updateAccessTokenUI();
-        this.updateIdTokenUI();
+        this.updateIdTokenUI().catch(error => {
+            this.idTokenInfoSection.style.display = 'none';
+            this.showError(error);
+        });
+        this.updateUserProfileUI().catch(error => {
+            this.userProfileSection.style.display = 'none';
+            this.showError(error);
+        });
     }
 
     /**
@@ -108,13 +306,13 @@ class OAuth2App {
      */
     private updateAccessTokenUI(): void {
         const isAuthenticated = this.oauth2Client.isAuthenticated();
-        const accessToken = this.oauth2Client.getAccessToken();
 
         // Update authentication status
         if (isAuthenticated) {
-            this.authStatus.textContent = 'Authenticated';
+            this.authStatus.textContent = `Authenticated with ${this.providers.getActiveProvider().label}`;
             this.authStatus.className = 'status authenticated';
-            this.loginBtn.style.display = 'none';
+            this.providerPicker.style.display = 'none';
+            this.popupLoginOption.style.display = 'none';
             this.logoutBtn.style.display = 'inline-block';
 
             // Show token info
@@ -126,27 +324,44 @@ class OAuth2App {
         } else {
             this.authStatus.textContent = 'Not Authenticated';
             this.authStatus.className = 'status not-authenticated';
-            this.loginBtn.style.display = 'inline-block';
+            this.providerPicker.style.display = 'block';
+            this.popupLoginOption.style.display = 'block';
             this.logoutBtn.style.display = 'none';
             this.tokenInfoSection.style.display = 'none';
         }
 
-        // Update API client with token
-        this.apiClient.setAccessToken(accessToken);
-
         // Enable/disable protected API buttons
         this.protectedApiBtn.disabled = !isAuthenticated;
-        this.adminApiBtn.disabled = !isAuthenticated;
+        this.applyAccessRules();
+    }
+
+    /**
+     * Show, hide or disable the elements marked with data-requires-scope or data-requires-role.
+     * Values are space-separated and all of them are required. Elements are hidden when the
+     * check fails, or disabled when they have data-unauthorized="disable".
+     */
+    private applyAccessRules(): void {
+        document.querySelectorAll<HTMLElement>('[data-requires-scope], [data-requires-role]').forEach(element => {
+            const allowed = this.oauth2Client.isAuthenticated()
+                && this.oauth2Client.hasScope(element.dataset.requiresScope || [])
+                && this.oauth2Client.hasRole(element.dataset.requiresRole || []);
+
+            if (element.dataset.unauthorized === 'disable') {
+                element.toggleAttribute('disabled', !allowed);
+            } else {
+                element.hidden = !allowed;
+            }
+        });
     }
 
     /**
      * Update UI with identity token information
      */
-    private updateIdTokenUI(): void {
+    private async updateIdTokenUI(): Promise<void> {
         const isAuthenticated = this.oauth2Client.isAuthenticated();
 
         if (isAuthenticated) {
-            const idToken = this.oauth2Client.getIdToken();
+            const idToken = await this.oauth2Client.getIdToken();
             if (idToken) {
                 // console.log('ID Token:', idToken);
                 this.idTokenInfo.textContent = JSON.stringify(idToken, null, 2);
@@ -160,24 +375,160 @@ class OAuth2App {
     }
 
     /**
-     * Handle login button click
+     * Update UI with the user's profile from the ID token and userinfo endpoint
+     */
+    private async updateUserProfileUI(): Promise<void> {
+        const profile = this.oauth2Client.isAuthenticated() ? await this.oauth2Client.getUserInfo() : null;
+        this.renderUserProfile(profile);
+    }
+
+    /**
+     * Show the user's profile, or hide the section without one
+     */
+    private renderUserProfile(profile: UserProfile | null): void {
+        if (profile) {
+            this.userProfileInfo.textContent = JSON.stringify(profile, null, 2);
+            this.userProfileSection.style.display = 'block';
+        } else {
+            this.userProfileSection.style.display = 'none';
+        }
+    }
+
+    /**
+     * Handle a click on one of the provider buttons
      */
-    private async handleLogin(): Promise<void> {
+    private async handleLogin(providerId: string): Promise<void> {
+        const client = this.providers.getClient(providerId);
+
         try {
-            await this.oauth2Client.authorize();
+            if (this.popupLoginCheckbox.checked) {
+                await client.authorizeWithPopup();
+                await this.providers.activate(providerId);
+                this.showMessage('Authentication successful!', 'success');
+            } else {
+                await client.authorize();
+            }
         } catch (error) {
-            this.showMessage(`Login failed: ${error}`, 'error');
+            this.showError(error);
         }
     }
 
     /**
-     * Handle logout button click
+     * Sign in with a code entered on another device, for kiosk and TV screens.
+     * Shows the code and a countdown until the user approves, cancels or the code expires.
      */
-    private handleLogout(): void {
-        this.oauth2Client.logout();
-        this.updateUI();
-        this.clearApiResponses();
-        this.showMessage('Logged out successfully', 'success');
+    private async handleDeviceLogin(providerId: string): Promise<void> {
+        const client = this.providers.getClient(providerId);
+        this.deviceLogin?.abort();
+        const controller = new AbortController();
+        this.deviceLogin = controller;
+        let countdown: ReturnType<typeof setInterval> | undefined;
+
+        try {
+            const authorization = await client.startDeviceAuthorization();
+            this.deviceUserCode.textContent = authorization.userCode;
+            this.deviceVerificationLink.href = authorization.qrCodeUrl;
+            this.deviceVerificationLink.textContent = authorization.verificationUri;
+            this.deviceLoginSection.style.display = 'block';
+
+            const updateCountdown = () => {
+                this.deviceCountdown.textContent = `Code expires in ${formatCountdown(authorization.expiresAt)}`;
+            };
+            updateCountdown();
+            countdown = setInterval(updateCountdown, 1000);
+
+            await client.pollDeviceAuthorization(authorization, { signal: controller.signal });
+            await this.providers.activate(providerId);
+            this.showMessage('Authentication successful!', 'success');
+        } catch (error) {
+            // Cancelled by the user, or replaced by another device login
+            if (!controller.signal.aborted) {
+                this.showError(error);
+            }
+        } finally {
+            clearInterval(countdown);
+            if (this.deviceLogin === controller) {
+                this.deviceLogin = null;
+                this.deviceLoginSection.style.display = 'none';
+            }
+        }
+    }
+
+    /**
+     * Get the consent or authentication an API call asked for, in a popup when the
+     * browser allows it and otherwise by leaving the page
+     */
+    private async handleStepUp(challenge: StepUpChallenge): Promise<boolean> {
+        if (challenge.error === 'insufficient_scope' && !challenge.scope) {
+            return false;
+        }
+
+        this.showMessage('This action needs additional permissions, please confirm', 'success');
+
+        const stepUp = (mode: 'popup' | 'redirect') => challenge.error === 'insufficient_scope'
+            ? this.oauth2Client.requestAdditionalScopes(challenge.scope!, { mode })
+            : this.oauth2Client.stepUp({ acrValues: challenge.acrValues, maxAge: challenge.maxAge, mode });
+
+        try {
+            await stepUp('popup');
+        } catch (error) {
+            if (!(error instanceof PopupBlockedError)) {
+                throw error;
+            }
+            await stepUp('redirect');
+            return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Show the dialog warning that the session ends soon, with a countdown.
+     * An idle session can be kept; the maximum lifetime can't be extended.
+     */
+    private showSessionWarning(reason: SessionEndReason, logoutAt: number): void {
+        this.staySignedInBtn.hidden = reason === 'maxLifetime';
+
+        const updateCountdown = () => {
+            this.sessionWarningMessage.textContent = reason === 'idle'
+                ? `You will be signed out in ${formatCountdown(logoutAt)} because of inactivity.`
+                : `Your session ends in ${formatCountdown(logoutAt)}. Please sign in again to continue.`;
+        };
+        updateCountdown();
+        clearInterval(this.sessionWarningCountdown);
+        this.sessionWarningCountdown = setInterval(updateCountdown, 1000);
+
+        if (!this.sessionWarningDialog.open) {
+            this.sessionWarningDialog.showModal();
+        }
+    }
+
+    /**
+     * Close the session warning
+     */
+    private hideSessionWarning(): void {
+        clearInterval(this.sessionWarningCountdown);
+        if (this.sessionWarningDialog.open) {
+            this.sessionWarningDialog.close();
+        }
+    }
+
+    /**
+     * Handle logout button click. When the logout fails, the session is still ended in this
+     * browser, so the user isn't left signed in after asking to sign out.
+     */
+    private async handleLogout(): Promise<void> {
+        const client = this.oauth2Client;
+
+        try {
+            await client.logout();
+            this.showMessage('Logged out successfully', 'success');
+        } catch (error) {
+            await client.logout({ localOnly: true }).catch(localError => {
+                console.error('Local logout failed:', localError);
+            });
+            this.showError(error);
+        }
     }
 
     /**
@@ -192,13 +543,17 @@ class OAuth2App {
             this.displayApiResponse(this.publicResponse, response);
         } catch (error) {
             this.displayApiResponse(this.publicResponse, {
-                error: error instanceof Error ? error.message : 'Unknown error',
+                ok: false,
                 status: 0,
-                message: 'Request failed'
+                message: 'Request failed',
+                error: {
+                    kind: 'network',
+                    message: error instanceof Error ? error.message : 'Unknown error'
+                }
             });
         } finally {
             this.publicApiBtn.disabled = false;
-            this.publicApiBtn.textContent = 'Call /api/v1/public';
+            this.resetApiButtonLabels();
         }
     }
 
@@ -214,13 +569,17 @@ class OAuth2App {
             this.displayApiResponse(this.protectedResponse, response);
         } catch (error) {
             this.displayApiResponse(this.protectedResponse, {
-                error: error instanceof Error ? error.message : 'Unknown error',
+                ok: false,
                 status: 0,
-                message: 'Request failed'
+                message: 'Request failed',
+                error: {
+                    kind: 'network',
+                    message: error instanceof Error ? error.message : 'Unknown error'
+                }
             });
         } finally {
             this.protectedApiBtn.disabled = !this.oauth2Client.isAuthenticated();
-            this.protectedApiBtn.textContent = 'Call /api/v1/protected';
+            this.resetApiButtonLabels();
         }
     }
 
@@ -236,13 +595,17 @@ class OAuth2App {
             this.displayApiResponse(this.adminResponse, response);
         } catch (error) {
             this.displayApiResponse(this.adminResponse, {
-                error: error instanceof Error ? error.message : 'Unknown error',
+                ok: false,
                 status: 0,
-                message: 'Request failed'
+                message: 'Request failed',
+                error: {
+                    kind: 'network',
+                    message: error instanceof Error ? error.message : 'Unknown error'
+                }
             });
         } finally {
-            this.adminApiBtn.disabled = !this.oauth2Client.isAuthenticated();
-            this.adminApiBtn.textContent = 'Call /api/v1/admin';
+            this.resetApiButtonLabels();
+            this.applyAccessRules();
         }
     }
 
@@ -250,21 +613,43 @@ class OAuth2App {
      * Display API response in the UI
      */
     private displayApiResponse(element: HTMLElement, response: ApiResponse): void {
-        const isSuccess = response.status >= 200 && response.status < 300;
-
-        element.className = `response ${isSuccess ? 'success' : 'error'}`;
+        element.className = `response ${response.ok ? 'success' : 'error'}`;
         element.style.display = 'block';
 
         const displayData = {
             status: response.status,
             message: response.message,
-            ...(response.data && { data: response.data }),
-            ...(response.error && { error: response.error })
+            ...(response.ok ? { data: response.data } : { error: response.error })
         };
 
         element.textContent = JSON.stringify(displayData, null, 2);
     }
 
+    /**
+     * Show a user-friendly message for an error; the details go to the console
+     */
+    private showError(error: unknown): void {
+        console.error(error);
+        this.showMessage(this.describeError(error), 'error');
+    }
+
+    /**
+     * Turn an error into a message for the user
+     */
+    private describeError(error: unknown): string {
+        if (error instanceof OAuth2Error) {
+            const message = ERROR_MESSAGES[error.code];
+            if (message) return message;
+
+            if (error instanceof IdTokenValidationError) {
+                return ERROR_MESSAGES.invalid_nonce!;
+            }
+            return error.description || error.message;
+        }
+
+        return error instanceof Error ? error.message : String(error);
+    }
+
     /**
      * Show a temporary message to the user
      */
@@ -289,6 +674,16 @@ class OAuth2App {
         }, 3000);
     }
 
+    /**
+     * Label the API buttons with the configured paths
+     */
+    private resetApiButtonLabels(): void {
+        const paths = this.apiClient.getPaths();
+        this.publicApiBtn.textContent = `Call ${paths.public}`;
+        this.protectedApiBtn.textContent = `Call ${paths.protected}`;
+        this.adminApiBtn.textContent = `Call ${paths.admin}`;
+    }
+
     /**
      * Clear all API response displays
      */
@@ -301,4 +696,19 @@ class OAuth2App {
 
 
 // Initialize the app when the DOM is loaded
-document.addEventListener('DOMContentLoaded', () => new OAuth2App());
\ No newline at end of file
+document.addEventListener('DOMContentLoaded', () => {
+    // Popup and silent logins finish in the window that started them
+    if (window.location.pathname === '/callback' && OAuth2Client.relayCallbackToOpener()) {
+        return;
+    }
+
+    loadRuntimeConfig()
+        .then(config => new OAuth2App(config))
+        .catch(error => {
+            console.error('Failed to start the app:', error);
+            const messageElement = document.createElement('pre');
+            messageElement.className = 'response error';
+            messageElement.textContent = error instanceof ConfigError ? error.message : `Failed to start the app: ${error}`;
+            document.body.prepend(messageElement);
+        });
+});
\ No newline at end of file
@@ -0,0 +1,65 @@
+// setTimeout overflows for delays above 2^31 - 1 ms
+export const MAX_TIMER_DELAY_MS = 2147483647;
+
+/**
+ * A memoized async function, see memoizeUntilRejected()
+ */
+export interface MemoizedAsync<K, T> {
+    (key: K): Promise<T>;
+    // Drop the cached result, so the next call runs the function again
+    forget(key: K): void;
+}
+
+/**
+ * Share the promise of an async function between calls with the same key (none for
+ * functions without arguments). A rejected promise is dropped, so a failed load is
+ * retried by the next call instead of failing forever.
+ */
+export function memoizeUntilRejected<T, K = void>(load: (key: K) => Promise<T>): MemoizedAsync<K, T> {
+    const results = new Map<K, Promise<T>>();
+
+    const memoized = (key: K): Promise<T> => {
+        let result = results.get(key);
+        if (!result) {
+            const promise = load(key);
+            result = promise;
+            results.set(key, promise);
+            promise.catch(() => {
+                // Unless forget() has replaced it meanwhile
+                if (results.get(key) === promise) {
+                    results.delete(key);
+                }
+            });
+        }
+
+        return result;
+    };
+
+    return Object.assign(memoized, {
+        forget(key: K): void {
+            results.delete(key);
+        }
+    });
+}
+
+/**
+ * Wait for a delay, rejecting with the signal's reason when it is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
@@ -0,0 +1,158 @@
+import { memoizeUntilRejected } from './async-utils.js';
+import { withStore } from './idb.js';
+import { base64UrlEncode } from './jwt.js';
+import { findAuthChallenge } from './www-authenticate.js';
+
+export interface DpopProofOptions {
+    // Bound to the proof with the `ath` claim when calling a resource server
+    accessToken?: string;
+}
+
+/**
+ * Key pair used to sender-constrain tokens with DPoP (RFC 9449).
+ * The private key is a non-extractable ECDSA P-256 key kept in IndexedDB, so it can sign
+ * proofs for this origin but can't be copied anywhere together with a stolen token.
+ */
+export class DpopKey {
+    private keyId: string;
+    // The key pair, generated and stored on first use
+    private getKeyPair = memoizeUntilRejected(() => this.loadOrCreateKeyPair());
+    // Public key as a JWK, for the proof header
+    private getPublicJwk = memoizeUntilRejected(() => this.exportPublicJwk());
+    // Latest DPoP-Nonce per server origin (RFC 9449, section 8)
+    private nonces = new Map<string, string>();
+
+    constructor(namespace: string) {
+        this.keyId = `${namespace}:dpop`;
+    }
+
+    /**
+     * Create a proof JWT for one HTTP request
+     */
+    async createProof(method: string, url: string, options: DpopProofOptions = {}): Promise<string> {
+        const keyPair = await this.getKeyPair();
+        const target = new URL(url, window.location.href);
+
+        const header = {
+            typ: 'dpop+jwt',
+            alg: 'ES256',
+            jwk: await this.getPublicJwk()
+        };
+
+        const payload: Record<string, unknown> = {
+            jti: crypto.randomUUID(),
+            htm: method.toUpperCase(),
+            // The URI without query and fragment (RFC 9449, section 4.2)
+            htu: target.origin + target.pathname,
+            iat: Math.floor(Date.now() / 1000)
+        };
+
+        if (options.accessToken) {
+            payload.ath = await sha256Base64Url(options.accessToken);
+        }
+
+        const nonce = this.nonces.get(target.origin);
+        if (nonce) {
+            payload.nonce = nonce;
+        }
+
+        const signingInput = `${encodeJson(header)}.${encodeJson(payload)}`;
+        const signature = await crypto.subtle.sign(
+            { name: 'ECDSA', hash: 'SHA-256' },
+            keyPair.privateKey,
+            new TextEncoder().encode(signingInput)
+        );
+
+        return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`;
+    }
+
+    /**
+     * JWK SHA-256 thumbprint of the public key (RFC 7638), sent as `dpop_jkt` to bind the authorization code
+     */
+    async getThumbprint(): Promise<string> {
+        const jwk = await this.getPublicJwk();
+        // Required members only, in lexicographic order
+        const canonical = JSON.stringify({ crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y });
+        return sha256Base64Url(canonical);
+    }
+
+    /**
+     * Remember the nonce a server sent in a DPoP-Nonce header
+     */
+    updateNonce(url: string, response: Response): void {
+        const nonce = response.headers.get('DPoP-Nonce');
+        if (nonce) {
+            this.nonces.set(new URL(url, window.location.href).origin, nonce);
+        }
+    }
+
+    /**
+     * Read the stored key pair, or generate one
+     */
+    private async loadOrCreateKeyPair(): Promise<CryptoKeyPair> {
+        const existing = await withStore<CryptoKeyPair | undefined>('readonly', store => store.get(this.keyId));
+        if (existing) return existing;
+
+        const keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign', 'verify']);
+        try {
+            // add() fails when another tab stored a key meanwhile; all tabs must share one key
+            await withStore('readwrite', store => store.add(keyPair, this.keyId));
+            return keyPair;
+        } catch (error) {
+            const stored = await withStore<CryptoKeyPair | undefined>('readonly', store => store.get(this.keyId));
+            if (!stored) throw error;
+            return stored;
+        }
+    }
+
+    /**
+     * Export the public key, with only the members a DPoP proof header needs
+     */
+    private async exportPublicJwk(): Promise<JsonWebKey> {
+        const keyPair = await this.getKeyPair();
+        // Public keys are always exportable, only the private key is locked in
+        const { kty, crv, x, y } = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+        return { kty, crv, x, y };
+    }
+}
+
+/**
+ * Check whether a response asks to repeat the request with a DPoP nonce: an error response
+ * from the token endpoint (RFC 9449, section 8) or a challenge from a resource server (section 9)
+ */
+export async function isDpopNonceChallenge(response: Response): Promise<boolean> {
+    if (!response.headers.has('DPoP-Nonce')) {
+        return false;
+    }
+
+    if (response.status === 401) {
+        return findAuthChallenge(response.headers.get('WWW-Authenticate'), 'DPoP')?.params['error'] === 'use_dpop_nonce';
+    }
+
+    if (response.status === 400) {
+        try {
+            // Clone, so the caller can still read the body
+            const body = await response.clone().json();
+            return body?.error === 'use_dpop_nonce';
+        } catch (error) {
+            return false;
+        }
+    }
+
+    return false;
+}
+
+/**
+ * Encode a JWT header or payload
+ */
+function encodeJson(value: unknown): string {
+    return base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+/**
+ * base64url-encoded SHA-256 hash of a string
+ */
+async function sha256Base64Url(value: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+    return base64UrlEncode(new Uint8Array(digest));
+}
@@ -0,0 +1,40 @@
+/**
+ * Minimal typed event emitter. `Events` maps each event name to the payload its listeners receive.
+ */
+export class TypedEventEmitter<Events> {
+    private listeners = new Map<keyof Events, Set<(event: never) => void>>();
+
+    /**
+     * Subscribe to an event; returns a function that unsubscribes
+     */
+    on<K extends keyof Events>(type: K, listener: (event: Events[K]) => void): () => void {
+        let listeners = this.listeners.get(type);
+        if (!listeners) {
+            listeners = new Set();
+            this.listeners.set(type, listeners);
+        }
+        listeners.add(listener);
+
+        return () => this.off(type, listener);
+    }
+
+    /**
+     * Remove a listener added with on()
+     */
+    off<K extends keyof Events>(type: K, listener: (event: Events[K]) => void): void {
+        this.listeners.get(type)?.delete(listener);
+    }
+
+    /**
+     * Call the listeners of an event. A failing listener is logged and doesn't keep the others from running.
+     */
+    emit<K extends keyof Events>(type: K, event: Events[K]): void {
+        this.listeners.get(type)?.forEach(listener => {
+            try {
+                (listener as (event: Events[K]) => void)(event);
+            } catch (error) {
+                console.error(`Listener for "${String(type)}" failed:`, error);
+            }
+        });
+    }
+}
@@ -0,0 +1,310 @@
+import { memoizeUntilRejected } from './async-utils.js';
+import { DecodedJwt, decodeJwt } from './jwt.js';
+import { OAuth2Error } from './oauth2-errors.js';
+
+export interface IdTokenClaims {
+    iss: string;
+    sub: string;
+    aud: string | string[];
+    exp: number;
+    iat: number;
+    nbf?: number;
+    azp?: string;
+    nonce?: string;
+    auth_time?: number;
+    [claim: string]: unknown;
+}
+
+export interface IdTokenValidatorOptions {
+    clientId: string;
+    issuer?: string;
+    jwksUri?: string;
+    clockSkewSeconds?: number;
+}
+
+export interface IdTokenChecks {
+    // Set to false to skip the exp check when re-verifying a stored ID token
+    checkExpiry?: boolean;
+    // Nonce sent in the authorization request
+    nonce?: string;
+    // max_age sent in the authorization request, in seconds
+    maxAge?: number;
+}
+
+export type IdTokenValidationErrorCode =
+    | 'configuration'
+    | 'malformed'
+    | 'unsupported_algorithm'
+    | 'key_not_found'
+    | 'invalid_signature'
+    | 'invalid_issuer'
+    | 'invalid_audience'
+    | 'invalid_azp'
+    | 'missing_claim'
+    | 'invalid_nonce'
+    | 'auth_time_too_old'
+    | 'expired'
+    | 'issued_in_future'
+    | 'not_yet_valid';
+
+/**
+ * The ID token was rejected; `invalid_nonce` means it doesn't belong to our authorization request
+ */
+export class IdTokenValidationError extends OAuth2Error {
+    declare readonly code: IdTokenValidationErrorCode;
+
+    constructor(code: IdTokenValidationErrorCode, message: string) {
+        super(code, message, { message: `ID token validation failed (${code}): ${message}` });
+        this.name = 'IdTokenValidationError';
+    }
+}
+
+type SupportedAlgorithm = 'RS256' | 'PS256' | 'ES256';
+
+interface AlgorithmParams {
+    kty: string;
+    importParams: RsaHashedImportParams | EcKeyImportParams;
+    verifyParams: AlgorithmIdentifier | RsaPssParams | EcdsaParams;
+}
+
+const ALGORITHMS: Record<SupportedAlgorithm, AlgorithmParams> = {
+    RS256: {
+        kty: 'RSA',
+        importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+        verifyParams: { name: 'RSASSA-PKCS1-v1_5' }
+    },
+    PS256: {
+        kty: 'RSA',
+        importParams: { name: 'RSA-PSS', hash: 'SHA-256' },
+        verifyParams: { name: 'RSA-PSS', saltLength: 32 }
+    },
+    ES256: {
+        kty: 'EC',
+        importParams: { name: 'ECDSA', namedCurve: 'P-256' },
+        verifyParams: { name: 'ECDSA', hash: 'SHA-256' }
+    }
+};
+
+type JsonWebKeyWithId = JsonWebKey & { kid?: string };
+
+// Minimum time between two JWKS fetches triggered by an unknown kid
+const JWKS_REFETCH_COOLDOWN_MS = 30 * 1000;
+
+/**
+ * Fetches and caches the provider's JSON Web Key Set
+ */
+export class JwksCache {
+    private jwksUri: string;
+    private keys = memoizeUntilRejected(() => {
+        this.importedKeys.clear();
+        return this.fetchKeys();
+    });
+    private lastRefetchedAt = 0;
+    private importedKeys = new Map<string, Promise<CryptoKey>>();
+
+    constructor(jwksUri: string) {
+        this.jwksUri = jwksUri;
+    }
+
+    /**
+     * Get the verification key for a token header.
+     * An unknown kid triggers one re-fetch, as the provider may have rotated its keys.
+     */
+    async getKey(kid: string | undefined, alg: SupportedAlgorithm): Promise<CryptoKey> {
+        let jwk = this.findKey(await this.getKeys(false), kid, alg);
+
+        if (!jwk && kid && Date.now() - this.lastRefetchedAt >= JWKS_REFETCH_COOLDOWN_MS) {
+            this.lastRefetchedAt = Date.now();
+            jwk = this.findKey(await this.getKeys(true), kid, alg);
+        }
+
+        if (!jwk) {
+            throw new IdTokenValidationError('key_not_found', `No ${alg} key found for kid "${kid ?? '(none)'}"`);
+        }
+
+        return this.importKey(jwk, alg);
+    }
+
+    /**
+     * Get the cached key set, fetching it when missing or when forced
+     */
+    private getKeys(forceRefresh: boolean): Promise<JsonWebKeyWithId[]> {
+        if (forceRefresh) {
+            this.keys.forget();
+        }
+
+        return this.keys();
+    }
+
+    /**
+     * Download the key set from the jwks_uri
+     */
+    private async fetchKeys(): Promise<JsonWebKeyWithId[]> {
+        const response = await fetch(this.jwksUri, {
+            headers: {
+                'Accept': 'application/json'
+            }
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`JWKS fetch failed: ${response.status} - ${errorText}`);
+        }
+
+        const jwks: { keys?: JsonWebKeyWithId[] } = await response.json();
+        return jwks.keys || [];
+    }
+
+    /**
+     * Pick the signing key matching the kid, or the only candidate when the token has no kid
+     */
+    private findKey(keys: JsonWebKeyWithId[], kid: string | undefined, alg: SupportedAlgorithm): JsonWebKeyWithId | undefined {
+        const candidates = keys.filter(key =>
+            key.kty === ALGORITHMS[alg].kty &&
+            key.use !== 'enc' &&
+            (!key.alg || key.alg === alg)
+        );
+
+        if (kid) {
+            return candidates.find(key => key.kid === kid);
+        }
+
+        return candidates.length === 1 ? candidates[0] : undefined;
+    }
+
+    /**
+     * Import a JWK for verification, reusing previously imported keys
+     */
+    private importKey(jwk: JsonWebKeyWithId, alg: SupportedAlgorithm): Promise<CryptoKey> {
+        const cacheKey = `${alg}:${jwk.kid ?? ''}:${jwk.n ?? jwk.x ?? ''}`;
+
+        let key = this.importedKeys.get(cacheKey);
+        if (!key) {
+            // Only pass the key material, alg/use/key_ops would have to match the import parameters exactly
+            key = crypto.subtle.importKey(
+                'jwk',
+                { kty: jwk.kty, n: jwk.n, e: jwk.e, crv: jwk.crv, x: jwk.x, y: jwk.y },
+                ALGORITHMS[alg].importParams,
+                false,
+                ['verify']
+            );
+            this.importedKeys.set(cacheKey, key);
+        }
+
+        return key;
+    }
+}
+
+/**
+ * Verifies ID token signatures against the provider's JWKS and checks the standard claims
+ */
+export class IdTokenValidator {
+    private options: IdTokenValidatorOptions;
+    private jwks: JwksCache | null;
+
+    constructor(options: IdTokenValidatorOptions) {
+        this.options = options;
+        this.jwks = options.jwksUri ? new JwksCache(options.jwksUri) : null;
+    }
+
+    /**
+     * Validate an ID token and return its claims
+     */
+    async validate(idToken: string, checks: IdTokenChecks = {}): Promise<IdTokenClaims> {
+        if (!this.jwks || !this.options.issuer) {
+            throw new IdTokenValidationError('configuration', 'Both issuer and jwksUri must be configured to validate ID tokens');
+        }
+
+        let decoded: DecodedJwt<IdTokenClaims>;
+        try {
+            decoded = decodeJwt<IdTokenClaims>(idToken);
+        } catch (error) {
+            throw new IdTokenValidationError('malformed', error instanceof Error ? error.message : 'Cannot decode token');
+        }
+
+        await this.verifySignature(this.jwks, decoded);
+        this.verifyClaims(decoded.payload, this.options.issuer, checks);
+
+        return decoded.payload;
+    }
+
+    /**
+     * Verify the JWS signature with the key selected by kid
+     */
+    private async verifySignature(jwks: JwksCache, decoded: DecodedJwt<IdTokenClaims>): Promise<void> {
+        const alg = decoded.header.alg;
+        if (!Object.prototype.hasOwnProperty.call(ALGORITHMS, alg)) {
+            throw new IdTokenValidationError('unsupported_algorithm', `Algorithm "${alg}" is not accepted`);
+        }
+
+        const algorithm = alg as SupportedAlgorithm;
+        const key = await jwks.getKey(decoded.header.kid, algorithm);
+        const valid = await crypto.subtle.verify(
+            ALGORITHMS[algorithm].verifyParams,
+            key,
+            decoded.signature,
+            new TextEncoder().encode(decoded.signingInput)
+        );
+
+        if (!valid) {
+            throw new IdTokenValidationError('invalid_signature', 'Signature does not match');
+        }
+    }
+
+    /**
+     * Check iss, aud, azp, exp, iat, nbf, nonce and auth_time (OpenID Connect Core 1.0, section 3.1.3.7)
+     */
+    private verifyClaims(claims: IdTokenClaims, issuer: string, checks: IdTokenChecks): void {
+        const now = Math.floor(Date.now() / 1000);
+        const skew = this.options.clockSkewSeconds ?? 60;
+        const clientId = this.options.clientId;
+
+        for (const claim of ['iss', 'sub', 'aud', 'exp', 'iat'] as const) {
+            if (claims[claim] === undefined) {
+                throw new IdTokenValidationError('missing_claim', `Claim "${claim}" is required`);
+            }
+        }
+
+        if (claims.iss !== issuer) {
+            throw new IdTokenValidationError('invalid_issuer', `Expected "${issuer}", got "${claims.iss}"`);
+        }
+
+        const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+        if (!audiences.includes(clientId)) {
+            throw new IdTokenValidationError('invalid_audience', `Token is not intended for client "${clientId}"`);
+        }
+
+        if (audiences.length > 1 && !claims.azp) {
+            throw new IdTokenValidationError('invalid_azp', 'Claim "azp" is required when there are multiple audiences');
+        }
+
+        if (claims.azp !== undefined && claims.azp !== clientId) {
+            throw new IdTokenValidationError('invalid_azp', `Expected "${clientId}", got "${claims.azp}"`);
+        }
+
+        if (checks.checkExpiry !== false && claims.exp + skew < now) {
+            throw new IdTokenValidationError('expired', `Token expired at ${new Date(claims.exp * 1000).toISOString()}`);
+        }
+
+        if (claims.iat - skew > now) {
+            throw new IdTokenValidationError('issued_in_future', `Token issued at ${new Date(claims.iat * 1000).toISOString()}`);
+        }
+
+        if (claims.nbf !== undefined && claims.nbf - skew > now) {
+            throw new IdTokenValidationError('not_yet_valid', `Token not valid before ${new Date(claims.nbf * 1000).toISOString()}`);
+        }
+
+        if (checks.nonce !== undefined && claims.nonce !== checks.nonce) {
+            throw new IdTokenValidationError('invalid_nonce', 'Nonce does not match the authorization request');
+        }
+
+        if (checks.maxAge !== undefined) {
+            if (claims.auth_time === undefined) {
+                throw new IdTokenValidationError('missing_claim', 'Claim "auth_time" is required when max_age was requested');
+            }
+            if (claims.auth_time + checks.maxAge + skew < now) {
+                throw new IdTokenValidationError('auth_time_too_old', `User authenticated at ${new Date(claims.auth_time * 1000).toISOString()}, longer than max_age ago`);
+            }
+        }
+    }
+}
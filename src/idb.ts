@@ -0,0 +1,27 @@
+import { memoizeUntilRejected } from './async-utils.js';
+
+const IDB_NAME = 'oauth2-token-store';
+const IDB_STORE = 'entries';
+
+/**
+ * Open (and create on first use) the database shared by the token store and the DPoP key
+ */
+const openDatabase = memoizeUntilRejected(() => new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(IDB_NAME, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(IDB_STORE);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+}));
+
+/**
+ * Run a single request against the entries object store
+ */
+export async function withStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const database = await openDatabase();
+
+    return new Promise((resolve, reject) => {
+        const request = action(database.transaction(IDB_STORE, mode).objectStore(IDB_STORE));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
@@ -0,0 +1,65 @@
+export interface JwtHeader {
+    alg: string;
+    typ?: string;
+    kid?: string;
+    [key: string]: unknown;
+}
+
+export interface DecodedJwt<T> {
+    header: JwtHeader;
+    payload: T;
+    signingInput: string;
+    signature: Uint8Array<ArrayBuffer>;
+}
+
+/**
+ * Encode bytes as base64url without padding
+ */
+export function base64UrlEncode(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach(byte => {
+        binary += String.fromCharCode(byte);
+    });
+
+    return btoa(binary)
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=/g, '');
+}
+
+/**
+ * Decode a base64url string (with or without padding) into bytes
+ */
+export function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64 + '='.repeat((4 - base64.length % 4) % 4);
+    const binary = atob(padded);
+
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+/**
+ * Decode a base64url string into UTF-8 text
+ */
+export function base64UrlDecodeText(value: string): string {
+    return new TextDecoder().decode(base64UrlDecode(value));
+}
+
+/**
+ * Split a compact JWS into its parts without verifying anything
+ */
+export function decodeJwt<T>(token: string): DecodedJwt<T> {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+        throw new Error('Malformed JWT: expected 3 parts');
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = parts as [string, string, string];
+
+    return {
+        header: JSON.parse(base64UrlDecodeText(encodedHeader)),
+        payload: JSON.parse(base64UrlDecodeText(encodedPayload)),
+        signingInput: `${encodedHeader}.${encodedPayload}`,
+        signature: base64UrlDecode(encodedSignature)
+    };
+}
@@ -1,3 +1,15 @@
+import { OidcProviderMetadata, fetchProviderMetadata, assertProviderSupportsClient } from './oidc-discovery.js';
+import { IdTokenChecks, IdTokenValidator } from './id-token-validator.js';
+import { base64UrlEncode, decodeJwt } from './jwt.js';
+import { StoredTokens, TokenStorageMode, TokenStore, createTokenStore } from './token-store.js';
+import { SessionSync, SessionSyncEventType } from './session-sync.js';
+import { TransactionStore } from './transaction-store.js';
+import { AuthorizationError, AuthorizationTimeoutError, OAuth2ClientError, OAuth2Error, PopupBlockedError, PopupClosedError, TokenRequestError } from './oauth2-errors.js';
+import { findAuthChallenge } from './www-authenticate.js';
+import { DpopKey, isDpopNonceChallenge } from './dpop.js';
+import { TypedEventEmitter } from './event-emitter.js';
+import { MAX_TIMER_DELAY_MS, sleep } from './async-utils.js';
+
 export interface TokenResponse {
     access_token: string;
     token_type: string;
@@ -13,35 +25,455 @@ export interface AuthConfig {
     baseUrl: string;
     authorizationEndpoint: string;
     tokenEndpoint: string;
+    // RFC 8628, required for startDeviceAuthorization()
+    deviceAuthorizationEndpoint?: string;
+    // RFC 9126 endpoint for pushed authorization requests
+    pushedAuthorizationRequestEndpoint?: string;
+    // Push authorization requests when the provider has a PAR endpoint, instead of sending them in the URL
+    par?: boolean;
+    // The provider only accepts pushed authorization requests (discovery: require_pushed_authorization_requests)
+    requirePushedAuthorizationRequests?: boolean;
+    // Signs the authorization request parameters as a request object (RFC 9101, JAR);
+    // receives the claims and returns the JWT. The signing key is up to the application.
+    requestObjectSigner?: (claims: Record<string, unknown>) => Promise<string>;
+    userinfoEndpoint?: string;
+    revocationEndpoint?: string;
+    endSessionEndpoint?: string;
+    jwksUri?: string;
+    issuer?: string;
+    postLogoutRedirectUri?: string;
     scope?: string;
+    refreshLeewaySeconds?: number;
+    clockSkewSeconds?: number;
+    // Where tokens are kept (default: 'session', so they don't outlive the browser session)
+    storage?: TokenStorageMode | TokenStore;
+    // Adopt the tokens older versions kept under plain localStorage keys (default: true).
+    // Only one client may do so: they were issued by one provider.
+    migrateLegacyTokens?: boolean;
+    crossTabSync?: boolean;
+    // Prefix of the storage keys (default: derived from the issuer and client ID)
+    namespace?: string;
+    // Bind the tokens to a key of this browser with DPoP (RFC 9449); the authorization server must support it
+    dpop?: boolean;
+    // Where hasRole() finds the roles, as a dot-separated claim path (default: 'roles'),
+    // e.g. 'realm_access.roles' for Keycloak or 'groups'
+    roleClaimPath?: string;
 }
 
-export interface IdToken {
-    given_name: string;
-    family_name: string;
-    nickname: string;
-    name: string;
-    picture: string;
-    updated_at: string;
-    email: string;
-    email_verified: boolean;
-    iss: string;
-    aud: string;
+export interface AuthorizeOptions {
+    // Scope to request instead of AuthConfig.scope
+    scope?: string;
+    prompt?: 'none' | 'login' | 'consent' | 'select_account' | string;
+    maxAge?: number;
+    loginHint?: string;
+    uiLocales?: string;
+    acrValues?: string;
+    extraParams?: Record<string, string>;
+    // Same-origin path to return to after login (default: the current page)
+    returnTo?: string;
+    // Opaque application state handed back by handleCallback()
+    appState?: unknown;
+}
+
+export interface CallbackResult {
+    returnTo?: string;
+    appState?: unknown;
+}
+
+export interface PopupAuthorizeOptions extends AuthorizeOptions {
+    // Give up when the user hasn't finished after this long (default: 5 minutes)
+    timeoutMs?: number;
+    popupWidth?: number;
+    popupHeight?: number;
+}
+
+export interface SilentAuthorizeOptions extends Omit<AuthorizeOptions, 'prompt'> {
+    // Give up when the hidden iframe hasn't answered after this long (default: 10 seconds)
+    timeoutMs?: number;
+}
+
+export interface StepUpOptions extends PopupAuthorizeOptions {
+    // Leave the page for the authorization server (default), or keep it open and use a popup
+    mode?: 'redirect' | 'popup';
+}
+
+export interface TokenRequestOptions {
+    // Scopes the access token must have
+    scope?: string | string[];
+    // API the access token is for, sent as the RFC 8707 resource parameter
+    audience?: string;
+}
+
+interface ScopedToken {
+    accessToken: string;
+    expiresAt: number | null;
+}
+
+export interface DeviceAuthorizationOptions {
+    // Scope to request instead of AuthConfig.scope
+    scope?: string;
+}
+
+/**
+ * A pending device authorization: show the user code and verification URI to the user,
+ * then wait for their approval with pollDeviceAuthorization()
+ */
+export interface DeviceAuthorization {
+    deviceCode: string;
+    userCode: string;
+    verificationUri: string;
+    verificationUriComplete: string | null;
+    // What to encode in a QR code: the complete verification URI when the server sent one,
+    // so scanning it skips typing the user code
+    qrCodeUrl: string;
+    // When the codes expire, in milliseconds since the epoch
+    expiresAt: number;
+    // Seconds between two polls, raised when the server asks to slow down
+    interval: number;
+    scope: string;
+}
+
+export interface DevicePollOptions {
+    // Stops polling, e.g. when the user cancels
+    signal?: AbortSignal;
+}
+
+/**
+ * Device authorization response (RFC 8628, section 3.2)
+ */
+interface DeviceAuthorizationResponse {
+    device_code: string;
+    user_code: string;
+    verification_uri: string;
+    verification_uri_complete?: string;
+    expires_in: number;
+    interval?: number;
+}
+
+export interface LogoutOptions {
+    // Only clear the local tokens, without contacting the authorization server
+    localOnly?: boolean;
+    // Revoke the refresh and access tokens (default: true when a revocation endpoint is configured)
+    revokeTokens?: boolean;
+    // Redirect to the end_session_endpoint (default: true when one is configured)
+    endSession?: boolean;
+    postLogoutRedirectUri?: string;
+}
+
+export interface SessionChangeEvent {
+    type: SessionSyncEventType;
+    fromOtherTab: boolean;
+}
+
+export interface TokenExpiryEvent {
+    // When the access token expires, in milliseconds since the epoch
+    expiresAt: number;
+    // Whether there is a refresh token to renew it with
+    refreshable: boolean;
+}
+
+/**
+ * Events emitted by OAuth2Client, by name, with the payload their listeners receive
+ */
+export interface AuthEventMap {
+    // A user signed in, in this tab or another one
+    login: { fromOtherTab: boolean };
+    // The session ended: logout, a rejected refresh token, or a logout in another tab
+    logout: { fromOtherTab: boolean };
+    tokenRefreshed: { fromOtherTab: boolean; expiresAt: number | null };
+    // The access token expires within refreshLeewaySeconds
+    tokenExpiring: TokenExpiryEvent;
+    tokenExpired: TokenExpiryEvent;
+    // sessionEnded is true when the refresh token was rejected and the tokens were cleared
+    refreshFailed: { error: unknown; sessionEnded: boolean };
+    callbackError: { error: unknown };
+    // A profile was fetched by getUserInfo(); cached results don't emit again
+    userLoaded: { profile: UserProfile };
+}
+
+export type AuthEventType = keyof AuthEventMap;
+
+export interface AddressClaim {
+    formatted?: string;
+    street_address?: string;
+    locality?: string;
+    region?: string;
+    postal_code?: string;
+    country?: string;
+}
+
+/**
+ * Standard claims about the user (OpenID Connect Core 1.0, section 5.1),
+ * plus whatever custom claims the provider adds
+ */
+export interface UserProfile {
     sub: string;
+    name?: string;
+    given_name?: string;
+    family_name?: string;
+    middle_name?: string;
+    nickname?: string;
+    preferred_username?: string;
+    profile?: string;
+    picture?: string;
+    website?: string;
+    email?: string;
+    email_verified?: boolean;
+    gender?: string;
+    birthdate?: string;
+    zoneinfo?: string;
+    locale?: string;
+    phone_number?: string;
+    phone_number_verified?: boolean;
+    address?: AddressClaim;
+    // Seconds since the epoch; some providers send an ISO 8601 date instead
+    updated_at?: number | string;
+    [claim: string]: unknown;
+}
+
+export interface IdToken extends UserProfile {
+    iss: string;
+    aud: string | string[];
+    azp?: string;
     iat: number;
     exp: number;
-    sid: string;
+    sid?: string;
+    nonce?: string;
+    auth_time?: number;
+}
+
+// ID token claims that describe the token rather than the user
+const PROTOCOL_CLAIMS = ['iss', 'aud', 'azp', 'exp', 'iat', 'nbf', 'jti', 'nonce', 'auth_time', 'at_hash', 'c_hash', 'sid', 'acr', 'amr'];
+
+/**
+ * Read a claim by name or by dot-separated path, e.g. `realm_access.roles`.
+ * Claim names may contain dots themselves (`https://example.com/roles`), so an exact match wins.
+ */
+function readClaim(claims: Record<string, unknown>, path: string): unknown {
+    if (path in claims) {
+        return claims[path];
+    }
+
+    return path.split('.').reduce<unknown>(
+        (value, key) => value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined,
+        claims
+    );
+}
+
+/**
+ * Turn a claim holding a space-separated string or an array into a list of strings
+ */
+function claimToList(value: unknown): string[] {
+    if (typeof value === 'string') {
+        return value.split(' ').filter(Boolean);
+    }
+    if (Array.isArray(value)) {
+        return value.filter((item): item is string => typeof item === 'string');
+    }
+    return [];
+}
+
+// Plain localStorage keys the tokens were kept under before they were namespaced
+const LEGACY_TOKEN_KEYS = ['access_token', 'refresh_token', 'id_token', 'token_expires_at'];
+
+const DEVICE_CODE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code';
+// RFC 8628, section 3.5: poll every 5 seconds unless told otherwise, and 5 seconds slower after slow_down
+// or a failed connection
+const DEFAULT_DEVICE_POLL_INTERVAL_S = 5;
+const SLOW_DOWN_INCREMENT_S = 5;
+
+// Message type the /callback page posts to the window that started a popup or iframe login
+const CALLBACK_MESSAGE_TYPE = 'oauth2_callback';
+
+interface CallbackMessage {
+    type: typeof CALLBACK_MESSAGE_TYPE;
+    url: string;
 }
 
 export class OAuth2Client {
     private config: AuthConfig;
+    private namespace: string;
     private accessToken: string | null = null;
     private refreshToken: string | null = null;
     private idToken: string | null = null;
+    private tokenExpiresAt: number | null = null;
+    private grantedScope: string | null = null;
+    // Access tokens for other audiences or narrower scopes, obtained with the refresh token
+    private scopedTokens = new Map<string, ScopedToken>();
+    private scopedTokenRequests = new Map<string, Promise<string>>();
+    private refreshPromise: Promise<string> | null = null;
+    private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+    // Timers for the tokenExpiring and tokenExpired events
+    private expiryTimers: ReturnType<typeof setTimeout>[] = [];
+    private providerMetadata: OidcProviderMetadata | null = null;
+    private idTokenValidator: IdTokenValidator;
+    private idTokenClaims: IdToken | null = null;
+    private userProfile: UserProfile | null = null;
+    private tokenStore: TokenStore;
+    // Whether other tabs see the tokens this one stores; not with 'session' and 'memory'
+    private sharedTokenStore: boolean;
+    private transactions: TransactionStore;
+    private dpop: DpopKey | null = null;
+    private storageQueue: Promise<void> = Promise.resolve();
+    private ready: Promise<void>;
+    private sessionSync: SessionSync | null = null;
+    private events = new TypedEventEmitter<AuthEventMap>();
 
     constructor(config: AuthConfig) {
         this.config = config;
-        this.loadTokensFromStorage();
+        this.idTokenValidator = new IdTokenValidator({
+            clientId: config.clientId,
+            issuer: config.issuer,
+            jwksUri: config.jwksUri ? this.resolveEndpoint(config.jwksUri) : undefined,
+            clockSkewSeconds: config.clockSkewSeconds
+        });
+        // Namespace by issuer and client so several clients on one origin keep their own tokens
+        const namespace = config.namespace || `oauth2:${config.issuer || config.baseUrl}:${config.clientId}`;
+        this.namespace = namespace;
+        const storage = config.storage || 'session';
+        this.tokenStore = createTokenStore(storage, namespace);
+        this.sharedTokenStore = storage !== 'session' && storage !== 'memory';
+        this.transactions = new TransactionStore(namespace);
+        if (config.dpop) {
+            this.dpop = new DpopKey(namespace);
+        }
+        this.ready = this.loadTokensFromStorage();
+
+        if (config.crossTabSync !== false) {
+            this.sessionSync = new SessionSync(namespace);
+            this.sessionSync.subscribe(type => {
+                this.handleRemoteSessionChange(type).catch(error => {
+                    console.error('Failed to apply session change from another tab:', error);
+                });
+            });
+        }
+    }
+
+    /**
+     * Subscribe to an auth event; returns a function that unsubscribes
+     */
+    on<K extends AuthEventType>(type: K, listener: (event: AuthEventMap[K]) => void): () => void {
+        return this.events.on(type, listener);
+    }
+
+    /**
+     * Remove a listener added with on()
+     */
+    off<K extends AuthEventType>(type: K, listener: (event: AuthEventMap[K]) => void): void {
+        this.events.off(type, listener);
+    }
+
+    /**
+     * Listen for login, refresh and logout in this tab or any other tab
+     * @deprecated Use on('login'), on('tokenRefreshed') and on('logout')
+     */
+    onSessionChange(listener: (event: SessionChangeEvent) => void): () => void {
+        const unsubscribers = [
+            this.on('login', ({ fromOtherTab }) => listener({ type: 'login', fromOtherTab })),
+            this.on('tokenRefreshed', ({ fromOtherTab }) => listener({ type: 'refresh', fromOtherTab })),
+            this.on('logout', ({ fromOtherTab }) => listener({ type: 'logout', fromOtherTab }))
+        ];
+        return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+    }
+
+    /**
+     * Emit the event of a session change and, for changes made here, tell the other tabs
+     */
+    private notifySessionChange(type: SessionSyncEventType, fromOtherTab: boolean = false): void {
+        if (!fromOtherTab) {
+            this.sessionSync?.publish(type);
+        }
+
+        if (type === 'refresh') {
+            this.events.emit('tokenRefreshed', { fromOtherTab, expiresAt: this.tokenExpiresAt });
+        } else {
+            this.events.emit(type, { fromOtherTab });
+        }
+    }
+
+    /**
+     * Pick up tokens another tab obtained, or drop ours when it logged out
+     */
+    private async handleRemoteSessionChange(type: SessionSyncEventType): Promise<void> {
+        await this.ready;
+
+        if (type === 'logout') {
+            this.cancelTokenRefresh();
+            this.applyStoredTokens(null);
+            // The store may not be shared with the other tab (memory, sessionStorage)
+            await this.saveTokensToStorage();
+        } else {
+            // The other tab's tokens can't be read from a per-tab store, nothing changed here
+            if (!this.sharedTokenStore) return;
+
+            await this.readTokensFromStorage();
+            this.scheduleTokenRefresh();
+        }
+
+        this.notifySessionChange(type, true);
+    }
+
+    /**
+     * Prefix of this client's storage keys, for other state that belongs to its session
+     */
+    getNamespace(): string {
+        return this.namespace;
+    }
+
+    /**
+     * Wait until tokens have been loaded from storage
+     */
+    whenReady(): Promise<void> {
+        return this.ready;
+    }
+
+    /**
+     * Create a client configured from the issuer's OpenID Connect discovery document.
+     * Values in options take precedence over the discovered ones.
+     */
+    static async fromIssuer(
+        issuerUrl: string,
+        clientId: string,
+        redirectUri: string,
+        options: Partial<AuthConfig> = {}
+    ): Promise<OAuth2Client> {
+        const metadata = await fetchProviderMetadata(issuerUrl);
+        assertProviderSupportsClient(metadata);
+
+        const config: AuthConfig = {
+            baseUrl: '',
+            issuer: metadata.issuer,
+            authorizationEndpoint: metadata.authorization_endpoint,
+            tokenEndpoint: metadata.token_endpoint,
+            deviceAuthorizationEndpoint: metadata.device_authorization_endpoint,
+            pushedAuthorizationRequestEndpoint: metadata.pushed_authorization_request_endpoint,
+            requirePushedAuthorizationRequests: metadata.require_pushed_authorization_requests,
+            userinfoEndpoint: metadata.userinfo_endpoint,
+            revocationEndpoint: metadata.revocation_endpoint,
+            endSessionEndpoint: metadata.end_session_endpoint,
+            jwksUri: metadata.jwks_uri,
+            ...options,
+            clientId,
+            redirectUri
+        };
+
+        const client = new OAuth2Client(config);
+        client.providerMetadata = metadata;
+        return client;
+    }
+
+    /**
+     * Get the discovery document the client was created from, if any
+     */
+    getProviderMetadata(): OidcProviderMetadata | null {
+        return this.providerMetadata;
+    }
+
+    /**
+     * Build the full URL of an endpoint; absolute URLs (e.g. from discovery) are used as-is
+     */
+    private resolveEndpoint(endpoint: string): string {
+        return /^https?:\/\//i.test(endpoint) ? endpoint : `${this.config.baseUrl}${endpoint}`;
     }
 
     /**
@@ -62,230 +494,1358 @@ export class OAuth2Client {
         const data = encoder.encode(codeVerifier);
         const digest = await crypto.subtle.digest('SHA-256', data);
 
-        // Convert to base64url
-        return btoa(String.fromCharCode(...new Uint8Array(digest)))
-            .replace(/\+/g, '-')
-            .replace(/\//g, '_')
-            .replace(/=/g, '');
+        return base64UrlEncode(new Uint8Array(digest));
     }
 
     /**
      * Initiate the OAuth 2.0 authorization flow
      */
-    async authorize(): Promise<void> {
-        const state = this.generateRandomString(32);
-        const codeVerifier = this.generateRandomString(128);
-        const codeChallenge = await this.generateCodeChallenge(codeVerifier);
-
-        // Store state and code verifier for later verification
-        sessionStorage.setItem('oauth_state', state);
-        sessionStorage.setItem('oauth_code_verifier', codeVerifier);
-
-        const params = new URLSearchParams({
-            response_type: 'code',
-            client_id: this.config.clientId,
-            redirect_uri: this.config.redirectUri,
-            state: state,
-            code_challenge: codeChallenge,
-            code_challenge_method: 'S256',
-            scope: this.config.scope || 'read'
-        });
-
-        const authUrl = `${this.config.baseUrl}${this.config.authorizationEndpoint}?${params.toString()}`;
-        window.location.href = authUrl;
+    async authorize(options: AuthorizeOptions = {}): Promise<void> {
+        const { url } = await this.createAuthorizationRequest(options);
+        window.location.href = url;
     }
 
     /**
-     * Handle the callback from the authorization server
+     * Log in through a popup window, keeping the current page and its state.
+     * Must be called from a user gesture (e.g. a click handler) so the popup isn't blocked.
      */
-    async handleCallback(): Promise<boolean> {
+    async authorizeWithPopup(options: PopupAuthorizeOptions = {}): Promise<void> {
+        const width = options.popupWidth || 500;
+        const height = options.popupHeight || 650;
+        const left = window.screenX + (window.outerWidth - width) / 2;
+        const top = window.screenY + (window.outerHeight - height) / 2;
+
+        // Open the popup before anything async, otherwise it no longer counts as a user gesture
+        const popup = window.open('', 'oauth2_login', `width=${width},height=${height},left=${left},top=${top}`);
+        if (!popup) {
+            throw new PopupBlockedError();
+        }
+
+        let state: string | null = null;
         try {
-            const urlParams = new URLSearchParams(window.location.search);
-            const code = urlParams.get('code');
-            const state = urlParams.get('state');
-            const error = urlParams.get('error');
-
-            if (error) {
-                console.error('OAuth error:', error);
-                throw new Error(`OAuth error: ${error}`);
-            }
+            const request = await this.createAuthorizationRequest(options);
+            state = request.state;
+            popup.location.href = request.url;
 
-            if (!code) {
-                throw new Error('Missing authorization code parameter');
+            const callbackUrl = await this.waitForCallback(popup, state, options.timeoutMs ?? 5 * 60 * 1000, () => popup.closed);
+            await this.handleCallback(callbackUrl);
+        } catch (error) {
+            if (state) {
+                this.transactions.remove(state);
             }
-
-            if (!state) {
-                throw new Error('Missing state parameter');
+            throw error;
+        } finally {
+            if (!popup.closed) {
+                popup.close();
             }
+        }
+    }
 
-            const storedState = sessionStorage.getItem('oauth_state');
-            if (state !== storedState) {
-                throw new Error('Invalid state parameter');
-            }
+    /**
+     * Renew the session without user interaction, using prompt=none in a hidden iframe.
+     * Fails with an AuthorizationError whose interactionRequired is true when the user has to log in.
+     */
+    async authorizeSilently(options: SilentAuthorizeOptions = {}): Promise<void> {
+        const { url, state } = await this.createAuthorizationRequest({ ...options, prompt: 'none' });
 
-            const codeVerifier = sessionStorage.getItem('oauth_code_verifier');
-            if (!codeVerifier) {
-                throw new Error('Missing code verifier');
-            }
+        const iframe = document.createElement('iframe');
+        iframe.style.display = 'none';
+        iframe.setAttribute('aria-hidden', 'true');
+        iframe.src = url;
+        document.body.appendChild(iframe);
 
-            // Exchange code for token
-            return await this.exchangeCodeForToken(code, codeVerifier);
+        try {
+            const callbackUrl = await this.waitForCallback(iframe.contentWindow!, state, options.timeoutMs ?? 10 * 1000);
+            await this.handleCallback(callbackUrl);
+        } catch (error) {
+            this.transactions.remove(state);
+            throw error;
         } finally {
-            // Clean up session storage regardless of success/failure
-            sessionStorage.removeItem('oauth_state');
-            sessionStorage.removeItem('oauth_code_verifier');
+            iframe.remove();
         }
     }
 
     /**
-     * Exchange authorization code for access token
+     * Wait for the /callback page in a popup or iframe to post its URL back.
+     * Only messages from our origin, from that window and with the expected state are accepted.
      */
-    private async exchangeCodeForToken(code: string, codeVerifier: string): Promise<boolean> {
-        const body = new URLSearchParams({
-            grant_type: 'authorization_code',
-            code: code,
-            redirect_uri: this.config.redirectUri,
-            client_id: this.config.clientId,
-            code_verifier: codeVerifier
+    private waitForCallback(source: Window, state: string, timeoutMs: number, isClosed?: () => boolean): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const cleanup = () => {
+                window.removeEventListener('message', onMessage);
+                clearTimeout(timeout);
+                clearInterval(closedPoll);
+            };
+
+            const onMessage = (event: MessageEvent<CallbackMessage>) => {
+                if (event.origin !== window.location.origin || event.source !== source) return;
+                if (!event.data || event.data.type !== CALLBACK_MESSAGE_TYPE) return;
+                if (new URL(event.data.url).searchParams.get('state') !== state) return;
+
+                cleanup();
+                resolve(event.data.url);
+            };
+
+            const timeout = setTimeout(() => {
+                cleanup();
+                reject(new AuthorizationTimeoutError(timeoutMs));
+            }, timeoutMs);
+
+            // There is no event for a closed popup, so poll for it
+            const closedPoll = isClosed
+                ? setInterval(() => {
+                    if (isClosed()) {
+                        cleanup();
+                        reject(new PopupClosedError());
+                    }
+                }, 500)
+                : undefined;
+
+            window.addEventListener('message', onMessage);
         });
+    }
+
+    /**
+     * When this page is the /callback of a popup or iframe login, hand the URL to the window
+     * that started it and return true; the app should then not initialize itself.
+     */
+    static relayCallbackToOpener(): boolean {
+        const target = window.opener && window.opener !== window
+            ? window.opener as Window
+            : window.parent !== window ? window.parent : null;
+        if (!target) {
+            return false;
+        }
 
         try {
-            const response = await fetch(this.config.baseUrl + this.config.tokenEndpoint, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/x-www-form-urlencoded',
-                },
-                body: body.toString()
-            });
+            // Only relay to our own app, not to a foreign page that opened or framed us
+            if (target.location.origin !== window.location.origin) return false;
+        } catch (error) {
+            return false;
+        }
 
-            if (!response.ok) {
-                const errorText = await response.text();
-                throw new Error(`Token exchange failed: ${response.status} - ${errorText}`);
-            }
+        const message: CallbackMessage = { type: CALLBACK_MESSAGE_TYPE, url: window.location.href };
+        target.postMessage(message, window.location.origin);
+
+        if (target === window.opener) {
+            window.close();
+        }
+        return true;
+    }
+
+    /**
+     * Generate state, nonce and PKCE values, store them and build the authorization URL
+     */
+    private async createAuthorizationRequest(options: AuthorizeOptions): Promise<{ url: string; state: string }> {
+        const state = this.generateRandomString(32);
+        const nonce = this.generateRandomString(32);
+        const codeVerifier = this.generateRandomString(128);
+        const codeChallenge = await this.generateCodeChallenge(codeVerifier);
+        const scope = options.scope || this.config.scope || 'read';
 
-            const tokenResponse: TokenResponse = await response.json();
+        // Store state, nonce and code verifier for later verification
+        this.transactions.save({
+            state,
+            nonce,
+            codeVerifier,
+            maxAge: options.maxAge,
+            scope,
+            returnTo: this.sanitizeReturnTo(options.returnTo ?? window.location.pathname + window.location.search + window.location.hash),
+            appState: options.appState
+        });
 
-            this.accessToken = tokenResponse.access_token;
-            this.refreshToken = tokenResponse.refresh_token || null;
-            this.idToken = tokenResponse.id_token || null;
+        const params = new URLSearchParams({
+            // Extra parameters come first so they can't override the protocol ones below
+            ...options.extraParams,
+            response_type: 'code',
+            client_id: this.config.clientId,
+            redirect_uri: this.config.redirectUri,
+            state: state,
+            code_challenge: codeChallenge,
+            code_challenge_method: 'S256',
+            nonce: nonce,
+            scope: scope
+        });
 
-            // Store tokens in localStorage for persistence
-            this.saveTokensToStorage(tokenResponse);
+        if (options.prompt) params.set('prompt', options.prompt);
+        if (options.maxAge !== undefined) params.set('max_age', options.maxAge.toString());
+        if (options.loginHint) params.set('login_hint', options.loginHint);
+        if (options.uiLocales) params.set('ui_locales', options.uiLocales);
+        if (options.acrValues) params.set('acr_values', options.acrValues);
+        // RFC 9449, section 10: bind the authorization code to our DPoP key
+        if (this.dpop) params.set('dpop_jkt', await this.dpop.getThumbprint());
 
-            return true;
+        let query = params;
+        try {
+            if (this.config.requestObjectSigner) {
+                query = await this.createRequestObject(params);
+            }
+            // Only a reference to the pushed parameters goes through the browser
+            if (this.usesPushedAuthorization()) {
+                query = new URLSearchParams({
+                    client_id: this.config.clientId,
+                    request_uri: await this.pushAuthorizationRequest(query)
+                });
+            }
         } catch (error) {
-            console.error('Token exchange error:', error);
+            this.transactions.remove(state);
             throw error;
         }
+
+        const authUrl = `${this.resolveEndpoint(this.config.authorizationEndpoint)}?${query.toString()}`;
+        return { url: authUrl, state };
     }
 
     /**
-     * Save tokens to localStorage
+     * Whether authorization requests go to the PAR endpoint. Without one the request is sent
+     * in the URL, unless the provider requires PAR.
      */
-    private saveTokensToStorage(tokenResponse: TokenResponse): void {
-        localStorage.setItem('access_token', tokenResponse.access_token);
-        if (tokenResponse.refresh_token) {
-            localStorage.setItem('refresh_token', tokenResponse.refresh_token);
-        }
-        if (tokenResponse.expires_in) {
-            const expiresAt = Date.now() + (tokenResponse.expires_in * 1000);
-            localStorage.setItem('token_expires_at', expiresAt.toString());
-        }
-        if (tokenResponse.id_token) {
-            localStorage.setItem('id_token', tokenResponse.id_token);
+    private usesPushedAuthorization(): boolean {
+        if (!this.config.pushedAuthorizationRequestEndpoint) {
+            if (this.config.requirePushedAuthorizationRequests) {
+                throw new Error('The provider requires pushed authorization requests, but no PAR endpoint is configured');
+            }
+            return false;
         }
+
+        return !!(this.config.par || this.config.requirePushedAuthorizationRequests);
     }
 
     /**
-     * Load tokens from localStorage
+     * Push the authorization request parameters (RFC 9126, section 2) and get the request_uri that refers to them
      */
-    private loadTokensFromStorage(): void {
-        this.accessToken = localStorage.getItem('access_token');
-        this.refreshToken = localStorage.getItem('refresh_token');
-        this.idToken = localStorage.getItem('id_token');
+    private async pushAuthorizationRequest(params: URLSearchParams): Promise<string> {
+        const response = await this.fetchWithDpop(this.resolveEndpoint(this.config.pushedAuthorizationRequestEndpoint!), {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+            },
+            body: params.toString()
+        });
 
-        // Check if token is expired
-        const expiresAt = localStorage.getItem('token_expires_at');
-        if (expiresAt && Date.now() > parseInt(expiresAt)) {
-            this.logout();
+        // Errors use the token endpoint format (RFC 9126, section 2.3)
+        if (!response.ok) {
+            throw await TokenRequestError.fromResponse(response);
         }
+
+        const body: { request_uri?: string } = await response.json();
+        if (!body.request_uri) {
+            throw new OAuth2ClientError('invalid_response', 'Pushed authorization response without request_uri');
+        }
+
+        return body.request_uri;
     }
 
     /**
-     * Get the current access token
+     * Move the parameters into a signed request object (RFC 9101, section 4). client_id, response_type
+     * and scope stay outside as well, OpenID Connect requires them there.
      */
-    getAccessToken(): string | null {
-        return this.accessToken;
+    private async createRequestObject(params: URLSearchParams): Promise<URLSearchParams> {
+        const claims: Record<string, unknown> = Object.fromEntries(params);
+        if (params.has('max_age')) {
+            claims.max_age = Number(params.get('max_age'));
+        }
+        claims.iss = this.config.clientId;
+        claims.aud = this.config.issuer || this.config.baseUrl;
+
+        return new URLSearchParams({
+            client_id: this.config.clientId,
+            response_type: 'code',
+            scope: params.get('scope')!,
+            request: await this.config.requestObjectSigner!(claims)
+        });
     }
 
     /**
-     * Check if user is authenticated
+     * Keep returnTo only when it stays on this origin, so the callback can't be used as an open redirect
      */
-    isAuthenticated(): boolean {
-        return this.accessToken !== null;
+    private sanitizeReturnTo(returnTo: string): string | undefined {
+        try {
+            const url = new URL(returnTo, window.location.origin);
+            if (url.origin !== window.location.origin) {
+                return undefined;
+            }
+            // Returning to the callback page would try to handle it again
+            if (url.pathname === new URL(this.config.redirectUri, window.location.origin).pathname) {
+                return undefined;
+            }
+            return url.pathname + url.search + url.hash;
+        } catch (error) {
+            return undefined;
+        }
     }
 
     /**
-     * Get token info for display
+     * Check whether this client started the authorization request with the given state,
+     * e.g. to find the provider a callback belongs to
      */
-    getTokenInfo(): any {
-        if (!this.accessToken) return null;
+    hasPendingAuthorization(state: string): boolean {
+        return this.transactions.has(state);
+    }
 
+    /**
+     * Handle the callback from the authorization server.
+     * Defaults to the current page URL; popup and silent logins pass the URL of the callback window.
+     * Returns the returnTo path and app state saved by authorize().
+     * Failures are also emitted as callbackError.
+     */
+    async handleCallback(callbackUrl: string = window.location.href): Promise<CallbackResult> {
         try {
-            // Decode JWT token (just for display purposes)
-            const payload = this.accessToken.split('.')[1];
-            if (payload) {
-                const decoded = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
-                return {
-                    token: this.accessToken.substring(0, 20) + '...',
-                    expires: decoded.exp ? new Date(decoded.exp * 1000).toISOString() : 'Unknown',
-                    scope: decoded.scope || 'Unknown',
-                    user: decoded.sub || decoded.username || 'Unknown'
-                };
-            }
+            return await this.processCallback(callbackUrl);
         } catch (error) {
-            // If not a JWT token, just return basic info
-            return {
-                token: this.accessToken.substring(0, 20) + '...',
-                type: 'Bearer'
-            };
+            this.events.emit('callbackError', { error });
+            throw error;
         }
-
-        return null;
     }
 
-    getIdToken(): IdToken | null {
-        if (!this.idToken) return null;
+    /**
+     * Validate the callback parameters and redeem the authorization code
+     */
+    private async processCallback(callbackUrl: string): Promise<CallbackResult> {
+        // Don't let loading older tokens from storage race with the new ones
+        await this.ready;
 
-        try {
-            const payload = this.idToken.split('.')[1];
-            if (payload) {
-                const decoded: IdToken = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+        const urlParams = new URL(callbackUrl).searchParams;
+        const code = urlParams.get('code');
+        const state = urlParams.get('state');
+        const error = urlParams.get('error');
 
-                return decoded;
-            }
+        // The transaction is single use, take it out regardless of success/failure
+        const transaction = state ? this.transactions.take(state) : null;
 
-        } catch (error) {
-            return null;
+        if (error) {
+            console.error('OAuth error:', error);
+            throw new AuthorizationError(error, urlParams.get('error_description'), urlParams.get('error_uri'), state);
         }
 
-        return null;
-    }
+        if (!code) {
+            throw new OAuth2ClientError('missing_code', 'Missing authorization code parameter', { state });
+        }
 
-    /**
-     * Logout and clear tokens
-     */
-    logout(): void {
-        this.accessToken = null;
-        this.refreshToken = null;
-        localStorage.removeItem('access_token');
-        localStorage.removeItem('refresh_token');
-        localStorage.removeItem('token_expires_at');
-        localStorage.removeItem('id_token');
+        if (!state) {
+            throw new OAuth2ClientError('state_mismatch', 'Missing state parameter');
+        }
 
-        // Clear the URL if we're on callback page
-        if (window.location.pathname === '/callback') {
-            window.history.replaceState({}, document.title, '/');
+        // Unknown or expired state: not started by us, already used, or too old
+        if (!transaction) {
+            throw new OAuth2ClientError('state_mismatch', 'Invalid state parameter', { state });
         }
+
+        if (!transaction.codeVerifier) {
+            throw new OAuth2ClientError('missing_verifier', 'Missing code verifier', { state });
+        }
+
+        // Exchange code for token
+        await this.exchangeCodeForToken(code, transaction.codeVerifier, {
+            nonce: transaction.nonce,
+            maxAge: transaction.maxAge
+        }, transaction.scope);
+
+        return {
+            returnTo: transaction.returnTo,
+            appState: transaction.appState
+        };
+    }
+
+    /**
+     * Exchange authorization code for access token
+     */
+    private async exchangeCodeForToken(code: string, codeVerifier: string, idTokenChecks: IdTokenChecks = {}, requestedScope?: string): Promise<boolean> {
+        const body = new URLSearchParams({
+            grant_type: 'authorization_code',
+            code: code,
+            redirect_uri: this.config.redirectUri,
+            client_id: this.config.clientId,
+            code_verifier: codeVerifier
+        });
+
+        try {
+            const tokenResponse = await this.requestTokens(body);
+            await this.acceptLogin(tokenResponse, idTokenChecks, requestedScope);
+
+            return true;
+        } catch (error) {
+            console.error('Token exchange error:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Validate and keep the tokens of a new login
+     */
+    private async acceptLogin(tokenResponse: TokenResponse, idTokenChecks: IdTokenChecks, requestedScope?: string): Promise<void> {
+        // Reject forged or misdirected ID tokens before anything is stored
+        const idTokenClaims = tokenResponse.id_token ? await this.validateIdToken(tokenResponse.id_token, idTokenChecks) : null;
+
+        // Tokens for other audiences stay usable after a step-up, but not after a switch of user
+        if (!idTokenClaims || idTokenClaims.sub !== this.currentSubject()) {
+            this.scopedTokens.clear();
+        }
+
+        await this.storeTokens({ ...tokenResponse, scope: tokenResponse.scope || requestedScope });
+        this.idTokenClaims = idTokenClaims;
+        this.notifySessionChange('login');
+    }
+
+    /**
+     * Start the device authorization grant (RFC 8628), for kiosks and TVs where typing credentials
+     * is impractical: the user approves on another device. Show the user code and verification URI,
+     * then wait with pollDeviceAuthorization().
+     */
+    async startDeviceAuthorization(options: DeviceAuthorizationOptions = {}): Promise<DeviceAuthorization> {
+        if (!this.config.deviceAuthorizationEndpoint) {
+            throw new Error('No device authorization endpoint configured');
+        }
+
+        const scope = options.scope || this.config.scope || 'read';
+        const response = await fetch(this.resolveEndpoint(this.config.deviceAuthorizationEndpoint), {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+            },
+            body: new URLSearchParams({ client_id: this.config.clientId, scope }).toString()
+        });
+
+        if (!response.ok) {
+            throw await TokenRequestError.fromResponse(response);
+        }
+
+        const body: DeviceAuthorizationResponse = await response.json();
+        if (!body.device_code || !body.user_code || !body.verification_uri || !body.expires_in) {
+            throw new OAuth2ClientError('invalid_response', 'Incomplete device authorization response');
+        }
+
+        return {
+            deviceCode: body.device_code,
+            userCode: body.user_code,
+            verificationUri: body.verification_uri,
+            verificationUriComplete: body.verification_uri_complete || null,
+            qrCodeUrl: body.verification_uri_complete || body.verification_uri,
+            expiresAt: Date.now() + body.expires_in * 1000,
+            // An interval of 0 would poll the token endpoint in a tight loop
+            interval: body.interval && body.interval > 0 ? body.interval : DEFAULT_DEVICE_POLL_INTERVAL_S,
+            scope
+        };
+    }
+
+    /**
+     * Poll the token endpoint until the user has approved the device authorization, then keep the tokens.
+     * Rejects with access_denied or expired_token, or with the signal's reason when aborted.
+     */
+    async pollDeviceAuthorization(authorization: DeviceAuthorization, options: DevicePollOptions = {}): Promise<void> {
+        await this.ready;
+
+        const body = new URLSearchParams({
+            grant_type: DEVICE_CODE_GRANT_TYPE,
+            device_code: authorization.deviceCode,
+            client_id: this.config.clientId
+        });
+
+        let tokenResponse: TokenResponse | null = null;
+        while (!tokenResponse) {
+            await sleep(authorization.interval * 1000, options.signal);
+
+            if (Date.now() >= authorization.expiresAt) {
+                throw new OAuth2Error('expired_token', 'The device code expired before it was approved');
+            }
+
+            try {
+                tokenResponse = await this.requestTokens(body);
+            } catch (error) {
+                // fetch() rejects with a TypeError when the server couldn't be reached; the user may
+                // be approving right now, so back off and keep polling like after slow_down
+                if (error instanceof TypeError || (error instanceof TokenRequestError && error.code === 'slow_down')) {
+                    authorization.interval += SLOW_DOWN_INCREMENT_S;
+                } else if (!(error instanceof TokenRequestError) || error.code !== 'authorization_pending') {
+                    throw error;
+                }
+            }
+        }
+
+        await this.acceptLogin(tokenResponse, {}, authorization.scope);
+    }
+
+    /**
+     * Refresh the access token using the stored refresh token.
+     * Concurrent callers share the same in-flight request, and only one tab refreshes at a time.
+     * Failures are also emitted as refreshFailed.
+     */
+    async refreshAccessToken(): Promise<string> {
+        if (!this.refreshPromise) {
+            this.refreshPromise = this.performTokenRefresh().catch(error => {
+                this.events.emit('refreshFailed', { error, sessionEnded: !this.refreshToken });
+                throw error;
+            }).finally(() => {
+                this.refreshPromise = null;
+            });
+        }
+
+        return this.refreshPromise;
+    }
+
+    /**
+     * Refresh the tokens, unless another tab already did
+     */
+    private async performTokenRefresh(): Promise<string> {
+        await this.ready;
+
+        const accessToken = this.accessToken;
+        const refreshed = await this.withRefreshLock(async () => {
+            // Another tab may have refreshed while we waited for the lock, and with
+            // refresh token rotation our refresh token would no longer be valid
+            if (this.sessionSync) {
+                await this.readTokensFromStorage();
+                if (this.accessToken && this.accessToken !== accessToken && !this.isTokenExpired()) {
+                    this.scheduleTokenRefresh();
+                    return false;
+                }
+            }
+
+            await this.requestTokenRefresh();
+            return true;
+        });
+
+        if (refreshed) {
+            this.notifySessionChange('refresh');
+        }
+
+        return this.accessToken!;
+    }
+
+    /**
+     * Serialize refreshes across tabs when cross-tab sync is enabled
+     */
+    private withRefreshLock<T>(action: () => Promise<T>): Promise<T> {
+        return this.sessionSync ? this.sessionSync.withRefreshLock(action) : action();
     }
-}
\ No newline at end of file
+
+    /**
+     * Perform the refresh_token grant against the token endpoint
+     */
+    private async requestTokenRefresh(): Promise<void> {
+        const refreshToken = this.refreshToken;
+        if (!refreshToken) {
+            throw new OAuth2ClientError('missing_refresh_token', 'No refresh token available');
+        }
+
+        const body = new URLSearchParams({
+            grant_type: 'refresh_token',
+            refresh_token: refreshToken,
+            client_id: this.config.clientId
+        });
+
+        let tokenResponse: TokenResponse;
+        try {
+            tokenResponse = await this.requestTokens(body);
+        } catch (error) {
+            // invalid_grant: the refresh token was rejected (expired, revoked or already rotated), so the
+            // session is over. Other errors, such as invalid_client or a DPoP nonce, don't end it
+            if (error instanceof TokenRequestError && error.code === 'invalid_grant') {
+                await this.clearTokens();
+                this.notifySessionChange('logout');
+            }
+            throw error;
+        }
+
+        let idTokenClaims = this.idTokenClaims;
+        if (tokenResponse.id_token) {
+            const previousSubject = idTokenClaims?.sub;
+            idTokenClaims = await this.validateIdToken(tokenResponse.id_token);
+            // OpenID Connect Core 1.0, section 12.2: a refreshed ID token must be about the same user
+            if (previousSubject && idTokenClaims.sub !== previousSubject) {
+                throw new OAuth2ClientError('subject_mismatch', 'Refreshed ID token belongs to a different subject');
+            }
+        }
+
+        // Servers that rotate refresh tokens return a new one; others expect the old one to be reused
+        await this.storeTokens({
+            ...tokenResponse,
+            refresh_token: tokenResponse.refresh_token || refreshToken,
+            id_token: tokenResponse.id_token || this.idToken || undefined,
+            // RFC 6749, section 6: an omitted scope is the one originally granted
+            scope: tokenResponse.scope || this.grantedScope || undefined
+        });
+        this.idTokenClaims = idTokenClaims;
+    }
+
+    /**
+     * Get an access token for another audience or a narrower scope with the refresh_token grant
+     * (RFC 6749, section 6 and RFC 8707), without replacing the main tokens.
+     * Concurrent requests for the same token share one call.
+     */
+    private requestScopedToken(key: string, options: TokenRequestOptions): Promise<string> {
+        let request = this.scopedTokenRequests.get(key);
+        if (!request) {
+            request = this.withRefreshLock(() => this.performScopedTokenRequest(key, options)).finally(() => {
+                this.scopedTokenRequests.delete(key);
+            });
+            this.scopedTokenRequests.set(key, request);
+        }
+
+        return request;
+    }
+
+    /**
+     * Perform the refresh_token grant for a scoped token
+     */
+    private async performScopedTokenRequest(key: string, options: TokenRequestOptions): Promise<string> {
+        await this.ready;
+
+        // Another tab may have rotated the refresh token while we waited for the lock
+        if (this.sessionSync) {
+            await this.readTokensFromStorage();
+        }
+
+        const refreshToken = this.refreshToken;
+        if (!refreshToken) {
+            throw new OAuth2ClientError('missing_refresh_token', 'No refresh token available');
+        }
+
+        const body = new URLSearchParams({
+            grant_type: 'refresh_token',
+            refresh_token: refreshToken,
+            client_id: this.config.clientId
+        });
+        const scopes = claimToList(options.scope);
+        if (scopes.length > 0) body.set('scope', scopes.join(' '));
+        if (options.audience) body.set('resource', options.audience);
+
+        let tokenResponse: TokenResponse;
+        try {
+            tokenResponse = await this.requestTokens(body);
+        } catch (error) {
+            // Unlike invalid_scope or invalid_target, invalid_grant means the refresh token itself is dead
+            if (error instanceof TokenRequestError && error.code === 'invalid_grant') {
+                await this.clearTokens();
+                this.notifySessionChange('logout');
+            }
+            throw error;
+        }
+
+        // With refresh token rotation the old one is no longer valid, keep the new one for the main tokens
+        if (tokenResponse.refresh_token && tokenResponse.refresh_token !== refreshToken) {
+            this.refreshToken = tokenResponse.refresh_token;
+            await this.saveTokensToStorage();
+        }
+
+        this.scopedTokens.set(key, {
+            accessToken: tokenResponse.access_token,
+            expiresAt: tokenResponse.expires_in ? Date.now() + (tokenResponse.expires_in * 1000) : null
+        });
+
+        return tokenResponse.access_token;
+    }
+
+    /**
+     * Post a grant to the token endpoint
+     */
+    private async requestTokens(body: URLSearchParams): Promise<TokenResponse> {
+        const response = await this.fetchWithDpop(this.resolveEndpoint(this.config.tokenEndpoint), {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+            },
+            body: body.toString()
+        });
+
+        if (!response.ok) {
+            throw await TokenRequestError.fromResponse(response);
+        }
+
+        const tokenResponse: TokenResponse = await response.json();
+
+        // Both are required (RFC 6749, section 5.1)
+        if (typeof tokenResponse.access_token !== 'string' || typeof tokenResponse.token_type !== 'string') {
+            throw new OAuth2ClientError('invalid_response', 'Token response without access_token or token_type');
+        }
+
+        // A Bearer token would be sent without proofs, which is exactly what DPoP should rule out
+        if (this.dpop && tokenResponse.token_type.toLowerCase() !== 'dpop') {
+            throw new OAuth2ClientError('invalid_response', `Expected a DPoP-bound token, got token_type "${tokenResponse.token_type}"`);
+        }
+
+        return tokenResponse;
+    }
+
+    /**
+     * Send a request with a DPoP proof when DPoP is enabled. A server that answers with
+     * a DPoP-Nonce challenge gets the request again, with its nonce in the proof.
+     */
+    private async fetchWithDpop(url: string, init: RequestInit, accessToken?: string): Promise<Response> {
+        const dpop = this.dpop;
+        if (!dpop) {
+            return fetch(url, init);
+        }
+
+        for (let attempt = 0; ; attempt++) {
+            const headers = new Headers(init.headers);
+            headers.set('DPoP', await dpop.createProof(init.method || 'GET', url, { accessToken }));
+
+            const response = await fetch(url, { ...init, headers });
+            dpop.updateNonce(url, response);
+
+            if (attempt > 0 || !(await isDpopNonceChallenge(response))) {
+                return response;
+            }
+        }
+    }
+
+    /**
+     * Get the DPoP key for proofs on resource requests, or null when DPoP is disabled
+     */
+    getDpopKey(): DpopKey | null {
+        return this.dpop;
+    }
+
+    /**
+     * Subject of the current ID token, only used to tell whether the user changed
+     */
+    private currentSubject(): string | undefined {
+        if (this.idTokenClaims) return this.idTokenClaims.sub;
+        if (!this.idToken) return undefined;
+
+        try {
+            return decodeJwt<{ sub?: string }>(this.idToken).payload.sub;
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    /**
+     * Keep tokens from a token endpoint response and schedule their renewal
+     */
+    private async storeTokens(tokenResponse: TokenResponse): Promise<void> {
+        this.accessToken = tokenResponse.access_token;
+        this.refreshToken = tokenResponse.refresh_token || null;
+        this.idToken = tokenResponse.id_token || null;
+        this.idTokenClaims = null;
+        this.userProfile = null;
+        this.tokenExpiresAt = tokenResponse.expires_in ? Date.now() + (tokenResponse.expires_in * 1000) : null;
+        // RFC 6749, section 5.1: without a scope in the response, the requested scope was granted
+        this.grantedScope = tokenResponse.scope || this.config.scope || null;
+
+        this.scheduleTokenRefresh();
+        await this.saveTokensToStorage();
+    }
+
+    /**
+     * Save the current tokens to the token store.
+     * Writes are queued so a slower earlier write can't overwrite a later one.
+     */
+    private saveTokensToStorage(): Promise<void> {
+        const tokens = {
+            accessToken: this.accessToken,
+            refreshToken: this.refreshToken,
+            idToken: this.idToken,
+            expiresAt: this.tokenExpiresAt,
+            scope: this.grantedScope
+        };
+
+        const write = this.storageQueue.then(() => tokens.accessToken || tokens.refreshToken
+            ? this.tokenStore.save(tokens)
+            : this.tokenStore.clear());
+        this.storageQueue = write.catch(error => {
+            console.error('Failed to persist tokens:', error);
+        });
+
+        return write;
+    }
+
+    /**
+     * Load tokens from the token store
+     */
+    private async loadTokensFromStorage(): Promise<void> {
+        if (this.config.migrateLegacyTokens !== false) {
+            await this.migrateLegacyTokens();
+        }
+        await this.readTokensFromStorage();
+
+        if (!this.accessToken && !this.refreshToken) {
+            return;
+        }
+
+        // Check if token is expired
+        if (this.isTokenExpired()) {
+            if (this.refreshToken) {
+                // Keep the session and renew the access token in the background
+                this.accessToken = null;
+                this.refreshAccessToken().catch(error => {
+                    console.error('Token refresh on load failed:', error);
+                });
+            } else {
+                const expiresAt = this.tokenExpiresAt!;
+                await this.clearTokens();
+                this.events.emit('tokenExpired', { expiresAt, refreshable: false });
+            }
+            return;
+        }
+
+        this.scheduleTokenRefresh();
+    }
+
+    /**
+     * Move tokens left in plain localStorage by older versions into the token store, once.
+     * The keys are removed even when that fails, a readable refresh token must not stay behind.
+     */
+    private async migrateLegacyTokens(): Promise<void> {
+        if (LEGACY_TOKEN_KEYS.every(key => localStorage.getItem(key) === null)) {
+            return;
+        }
+
+        const accessToken = localStorage.getItem('access_token');
+        const refreshToken = localStorage.getItem('refresh_token');
+        const expiresAt = localStorage.getItem('token_expires_at');
+
+        try {
+            // Keep a session stored since the upgrade
+            if ((accessToken || refreshToken) && !(await this.tokenStore.load())) {
+                await this.tokenStore.save({
+                    accessToken,
+                    refreshToken,
+                    idToken: localStorage.getItem('id_token'),
+                    expiresAt: expiresAt ? parseInt(expiresAt) : null,
+                    scope: null
+                });
+            }
+        } catch (error) {
+            console.error('Failed to migrate tokens from localStorage:', error);
+        } finally {
+            LEGACY_TOKEN_KEYS.forEach(key => localStorage.removeItem(key));
+        }
+    }
+
+    /**
+     * Replace the in-memory tokens with the ones in the token store
+     */
+    private async readTokensFromStorage(): Promise<void> {
+        try {
+            this.applyStoredTokens(await this.tokenStore.load());
+        } catch (error) {
+            console.error('Failed to load tokens:', error);
+        }
+    }
+
+    /**
+     * Set the in-memory tokens, keeping verified ID token claims when the ID token is unchanged
+     */
+    private applyStoredTokens(tokens: StoredTokens | null): void {
+        const idToken = tokens ? tokens.idToken : null;
+        if (idToken !== this.idToken) {
+            this.idTokenClaims = null;
+        }
+
+        const accessToken = tokens ? tokens.accessToken : null;
+        if (accessToken !== this.accessToken) {
+            this.userProfile = null;
+        }
+
+        if (!tokens || !tokens.refreshToken) {
+            this.scopedTokens.clear();
+        }
+
+        this.accessToken = tokens ? tokens.accessToken : null;
+        this.refreshToken = tokens ? tokens.refreshToken : null;
+        this.idToken = idToken;
+        this.tokenExpiresAt = tokens ? tokens.expiresAt : null;
+        this.grantedScope = tokens?.scope ?? null;
+    }
+
+    /**
+     * Check if the current access token has passed its expiry time
+     */
+    private isTokenExpired(): boolean {
+        return this.tokenExpiresAt !== null && Date.now() >= this.tokenExpiresAt;
+    }
+
+    /**
+     * Schedule a refresh shortly before the access token expires, and the tokenExpiring and tokenExpired events
+     */
+    private scheduleTokenRefresh(): void {
+        this.cancelTokenRefresh();
+
+        if (this.tokenExpiresAt === null) {
+            return;
+        }
+
+        const remaining = this.tokenExpiresAt - Date.now();
+        const leeway = (this.config.refreshLeewaySeconds ?? 60) * 1000;
+        this.scheduleExpiryEvent('tokenExpiring', remaining - leeway);
+        this.scheduleExpiryEvent('tokenExpired', remaining);
+
+        if (!this.refreshToken) {
+            return;
+        }
+
+        // Never renew earlier than half the lifetime, so short-lived tokens don't refresh in a loop
+        const delay = Math.max(remaining - leeway, remaining / 2, 0);
+
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = null;
+            this.refreshAccessToken().catch(error => {
+                console.error('Scheduled token refresh failed:', error);
+            });
+        }, Math.min(delay, MAX_TIMER_DELAY_MS));
+    }
+
+    /**
+     * Emit an expiry event for the current access token after a delay; replacing the tokens cancels it
+     */
+    private scheduleExpiryEvent(type: 'tokenExpiring' | 'tokenExpired', delay: number): void {
+        // Unlike a refresh, these events must not fire early because of the timer limit
+        if (delay > MAX_TIMER_DELAY_MS) {
+            return;
+        }
+
+        const expiresAt = this.tokenExpiresAt!;
+        this.expiryTimers.push(setTimeout(() => {
+            this.events.emit(type, { expiresAt, refreshable: this.refreshToken !== null });
+        }, Math.max(delay, 0)));
+    }
+
+    /**
+     * Cancel a pending scheduled refresh and expiry events
+     */
+    private cancelTokenRefresh(): void {
+        if (this.refreshTimer !== null) {
+            clearTimeout(this.refreshTimer);
+            this.refreshTimer = null;
+        }
+        this.expiryTimers.forEach(timer => clearTimeout(timer));
+        this.expiryTimers = [];
+    }
+
+    /**
+     * Clear tokens from memory and storage
+     */
+    private async clearTokens(): Promise<void> {
+        this.cancelTokenRefresh();
+        this.applyStoredTokens(null);
+        await this.saveTokensToStorage();
+    }
+
+    /**
+     * Get the current access token
+     */
+    getAccessToken(): string | null {
+        return this.accessToken;
+    }
+
+    /**
+     * Get an access token that is not expired, refreshing it first if needed.
+     * For an audience, a separate token is obtained with the refresh token and cached next
+     * to the main one. A refresh can only narrow the grant (RFC 6749, section 6), so scopes
+     * the user hasn't consented to are left out: the API then answers insufficient_scope,
+     * which starts the step-up that asks for them. Rejects when a scoped token is refused.
+     */
+    async getValidAccessToken(options: TokenRequestOptions = {}): Promise<string | null> {
+        const accessToken = await this.getValidMainAccessToken();
+        if (!accessToken || !options.audience) {
+            return accessToken;
+        }
+
+        const scopedOptions = this.withGrantedScope(options);
+        const key = this.scopedTokenKey(scopedOptions);
+        const cached = this.scopedTokens.get(key);
+        const leeway = (this.config.refreshLeewaySeconds ?? 60) * 1000;
+        if (cached && (cached.expiresAt === null || Date.now() < cached.expiresAt - leeway)) {
+            return cached.accessToken;
+        }
+
+        return this.requestScopedToken(key, scopedOptions);
+    }
+
+    /**
+     * Replace a rejected access token. Scoped tokens are requested again, the main token is refreshed.
+     */
+    async renewAccessToken(options: TokenRequestOptions = {}): Promise<string> {
+        if (!options.audience) {
+            return this.refreshAccessToken();
+        }
+
+        const scopedOptions = this.withGrantedScope(options);
+        const key = this.scopedTokenKey(scopedOptions);
+        this.scopedTokens.delete(key);
+        return this.requestScopedToken(key, scopedOptions);
+    }
+
+    /**
+     * Drop the requested scopes the main token wasn't granted, which a refresh can't add
+     */
+    private withGrantedScope(options: TokenRequestOptions): TokenRequestOptions {
+        const granted = this.getScopes();
+        return { ...options, scope: claimToList(options.scope).filter(item => granted.includes(item)) };
+    }
+
+    /**
+     * Cache key of a scoped token
+     */
+    private scopedTokenKey(options: TokenRequestOptions): string {
+        return `${options.audience || ''} ${claimToList(options.scope).sort().join(' ')}`;
+    }
+
+    /**
+     * Ask for the current scopes plus some more. The existing tokens stay in use until the
+     * user has consented; then the new tokens replace them.
+     */
+    async requestAdditionalScopes(scopes: string | string[], options: StepUpOptions = {}): Promise<void> {
+        const scope = new Set([...claimToList(this.config.scope || 'read'), ...this.getScopes(), ...claimToList(scopes)]);
+        await this.stepUp({ ...options, scope: [...scope].join(' ') });
+    }
+
+    /**
+     * Authenticate again with stronger requirements, e.g. `acrValues` for multi-factor
+     * authentication or `maxAge: 0` for a fresh login, keeping the scopes granted so far
+     */
+    async stepUp(options: StepUpOptions = {}): Promise<void> {
+        const { mode = 'redirect', ...authorizeOptions } = options;
+        const scopes = this.getScopes();
+        if (!authorizeOptions.scope && scopes.length > 0) {
+            authorizeOptions.scope = scopes.join(' ');
+        }
+
+        if (mode === 'popup') {
+            await this.authorizeWithPopup(authorizeOptions);
+        } else {
+            await this.authorize(authorizeOptions);
+        }
+    }
+
+    /**
+     * Get the main access token, refreshing it first if needed
+     */
+    private async getValidMainAccessToken(): Promise<string | null> {
+        await this.ready;
+
+        if (this.refreshPromise || (this.refreshToken && (this.isTokenExpired() || !this.accessToken))) {
+            try {
+                return await this.refreshAccessToken();
+            } catch (error) {
+                console.error('Token refresh failed:', error);
+            }
+        }
+
+        return this.isTokenExpired() ? null : this.accessToken;
+    }
+
+    /**
+     * Check if user is authenticated
+     */
+    isAuthenticated(): boolean {
+        return this.accessToken !== null;
+    }
+
+    /**
+     * Get the scopes of the current access token: its `scope`/`scp` claim when it is
+     * a JWT carrying one, otherwise the scope from the token response
+     */
+    getScopes(): string[] {
+        if (!this.accessToken) return [];
+
+        const claims = this.getAccessTokenClaims();
+        const fromToken = claims ? claimToList(claims.scope ?? claims.scp) : [];
+
+        return fromToken.length > 0 ? fromToken : claimToList(this.grantedScope);
+    }
+
+    /**
+     * Check that the access token has all the given scopes
+     */
+    hasScope(scope: string | string[]): boolean {
+        const granted = this.getScopes();
+        return claimToList(scope).every(item => granted.includes(item));
+    }
+
+    /**
+     * Get the user's roles from the claim at `roleClaimPath`, in the access token or
+     * otherwise in the verified ID token
+     */
+    getRoles(): string[] {
+        if (!this.accessToken) return [];
+
+        const path = this.config.roleClaimPath || 'roles';
+        const claims = this.getAccessTokenClaims();
+        const fromToken = claims ? claimToList(readClaim(claims, path)) : [];
+
+        return fromToken.length > 0 || !this.idTokenClaims ? fromToken : claimToList(readClaim(this.idTokenClaims, path));
+    }
+
+    /**
+     * Check that the user has all the given roles
+     */
+    hasRole(role: string | string[]): boolean {
+        const roles = this.getRoles();
+        return claimToList(role).every(item => roles.includes(item));
+    }
+
+    /**
+     * Check that the access token or verified ID token has a claim (by name or dot-separated path).
+     * With a value, the claim must equal it, or contain it when the claim is a list.
+     */
+    hasClaim(path: string, value?: unknown): boolean {
+        if (!this.accessToken) return false;
+
+        return [this.getAccessTokenClaims(), this.idTokenClaims].some(claims => {
+            if (!claims) return false;
+
+            const claim = readClaim(claims, path);
+            if (claim === undefined) return false;
+            if (value === undefined) return true;
+
+            return Array.isArray(claim) ? claim.includes(value) : claim === value;
+        });
+    }
+
+    /**
+     * Decode the access token's claims; opaque tokens have none.
+     * The signature isn't checked, the claims only drive the UI and the API enforces them.
+     */
+    private getAccessTokenClaims(): Record<string, unknown> | null {
+        if (!this.accessToken) return null;
+
+        try {
+            return decodeJwt<Record<string, unknown>>(this.accessToken).payload;
+        } catch (error) {
+            return null;
+        }
+    }
+
+    /**
+     * Get token info for display
+     */
+    getTokenInfo(): any {
+        if (!this.accessToken) return null;
+
+        try {
+            // Decode JWT token (just for display purposes)
+            const decoded = decodeJwt<Record<string, any>>(this.accessToken).payload;
+            if (decoded) {
+                return {
+                    token: this.accessToken.substring(0, 20) + '...',
+                    expires: decoded.exp ? new Date(decoded.exp * 1000).toISOString() : 'Unknown',
+                    scope: decoded.scope || 'Unknown',
+                    user: decoded.sub || decoded.username || 'Unknown'
+                };
+            }
+        } catch (error) {
+            // If not a JWT token, just return basic info
+            return {
+                token: this.accessToken.substring(0, 20) + '...',
+                type: 'Bearer'
+            };
+        }
+
+        return null;
+    }
+
+    /**
+     * Get the verified ID token claims.
+     * Throws an IdTokenValidationError when the stored ID token doesn't pass validation.
+     */
+    async getIdToken(): Promise<IdToken | null> {
+        await this.ready;
+
+        const idToken = this.idToken;
+        if (!idToken) return null;
+
+        if (!this.idTokenClaims) {
+            // Stored ID tokens can be tampered with, so verify them again (their expiry no longer matters)
+            const claims = await this.validateIdToken(idToken, { checkExpiry: false });
+            if (this.idToken === idToken) {
+                this.idTokenClaims = claims;
+            }
+            return claims;
+        }
+
+        return this.idTokenClaims;
+    }
+
+    /**
+     * Get the user's profile: the ID token claims merged with the response of the userinfo endpoint.
+     * The result is cached until the tokens are refreshed; without a userinfo endpoint only the
+     * ID token claims are used.
+     */
+    async getUserInfo(options: { forceReload?: boolean } = {}): Promise<UserProfile | null> {
+        const accessToken = await this.getValidAccessToken();
+        if (!accessToken) return null;
+
+        if (this.userProfile && !options.forceReload) {
+            return this.userProfile;
+        }
+
+        const idTokenClaims = await this.getIdToken();
+        const profile: UserProfile | null = idTokenClaims ? this.profileFromIdToken(idTokenClaims) : null;
+
+        if (!this.config.userinfoEndpoint) {
+            if (profile && this.accessToken === accessToken) {
+                this.userProfile = profile;
+                this.events.emit('userLoaded', { profile });
+            }
+            return profile;
+        }
+
+        const response = await this.fetchWithDpop(this.resolveEndpoint(this.config.userinfoEndpoint), {
+            headers: {
+                'Authorization': `${this.dpop ? 'DPoP' : 'Bearer'} ${accessToken}`,
+                'Accept': 'application/json'
+            }
+        }, accessToken);
+
+        if (!response.ok) {
+            // RFC 6750, section 3: the error details are in the WWW-Authenticate header
+            const challenge = findAuthChallenge(response.headers.get('WWW-Authenticate'), this.dpop ? 'DPoP' : 'Bearer');
+            throw new OAuth2Error(
+                challenge?.params.error ?? 'invalid_response',
+                challenge?.params.error_description ?? `UserInfo request failed: ${response.status}`,
+                { status: response.status }
+            );
+        }
+
+        const userInfo: UserProfile = await response.json();
+
+        // OpenID Connect Core 1.0, section 5.3.2: the response must be about the ID token's subject
+        if (!userInfo.sub || (idTokenClaims && userInfo.sub !== idTokenClaims.sub)) {
+            throw new OAuth2ClientError('subject_mismatch', 'UserInfo response belongs to a different subject');
+        }
+
+        const merged: UserProfile = { ...profile, ...userInfo };
+
+        // Don't cache a profile fetched with tokens that were replaced in the meantime
+        if (this.accessToken === accessToken) {
+            this.userProfile = merged;
+            this.events.emit('userLoaded', { profile: merged });
+        }
+
+        return merged;
+    }
+
+    /**
+     * Keep the claims of an ID token that describe the user
+     */
+    private profileFromIdToken(claims: IdToken): UserProfile {
+        const profile: UserProfile = { ...claims };
+        PROTOCOL_CLAIMS.forEach(claim => delete profile[claim]);
+        return profile;
+    }
+
+    /**
+     * Verify an ID token's signature and claims
+     */
+    private async validateIdToken(idToken: string, checks: IdTokenChecks = {}): Promise<IdToken> {
+        const claims = await this.idTokenValidator.validate(idToken, checks);
+        return claims as unknown as IdToken;
+    }
+
+    /**
+     * Logout: clear tokens, revoke them at the server (RFC 7009) and end the
+     * provider session (OpenID Connect RP-Initiated Logout)
+     */
+    async logout(options: LogoutOptions = {}): Promise<void> {
+        await this.ready;
+
+        const accessToken = this.accessToken;
+        const refreshToken = this.refreshToken;
+        const idToken = this.idToken;
+
+        await this.clearTokens();
+        this.notifySessionChange('logout');
+
+        // Clear the URL if we're on callback page
+        if (window.location.pathname === '/callback') {
+            window.history.replaceState({}, document.title, '/');
+        }
+
+        if (options.localOnly) {
+            return;
+        }
+
+        if (this.config.revocationEndpoint && options.revokeTokens !== false) {
+            // Revoke the refresh token first, servers usually revoke its access tokens along with it
+            if (refreshToken) {
+                await this.revokeToken(refreshToken, 'refresh_token');
+            }
+            if (accessToken) {
+                await this.revokeToken(accessToken, 'access_token');
+            }
+        }
+
+        if (this.config.endSessionEndpoint && options.endSession !== false) {
+            this.redirectToEndSession(idToken, options.postLogoutRedirectUri || this.config.postLogoutRedirectUri);
+        }
+    }
+
+    /**
+     * Revoke a token at the revocation endpoint; failures are logged as the local session is already gone
+     */
+    private async revokeToken(token: string, tokenTypeHint: 'access_token' | 'refresh_token'): Promise<void> {
+        const body = new URLSearchParams({
+            token: token,
+            token_type_hint: tokenTypeHint,
+            client_id: this.config.clientId
+        });
+
+        try {
+            const response = await fetch(this.resolveEndpoint(this.config.revocationEndpoint!), {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/x-www-form-urlencoded',
+                },
+                body: body.toString()
+            });
+
+            if (!response.ok) {
+                throw await TokenRequestError.fromResponse(response);
+            }
+        } catch (error) {
+            console.error(`Failed to revoke ${tokenTypeHint}:`, error);
+        }
+    }
+
+    /**
+     * Redirect to the provider's end_session_endpoint
+     */
+    private redirectToEndSession(idToken: string | null, postLogoutRedirectUri: string | undefined): void {
+        const params = new URLSearchParams({
+            client_id: this.config.clientId
+        });
+
+        if (idToken) {
+            params.set('id_token_hint', idToken);
+        }
+
+        if (postLogoutRedirectUri) {
+            const state = this.generateRandomString(32);
+            sessionStorage.setItem(this.logoutStateKey(), state);
+            params.set('post_logout_redirect_uri', postLogoutRedirectUri);
+            params.set('state', state);
+        }
+
+        window.location.href = `${this.resolveEndpoint(this.config.endSessionEndpoint!)}?${params.toString()}`;
+    }
+
+    /**
+     * Handle the return from the end_session_endpoint.
+     * Returns false when no RP-initiated logout was in progress.
+     */
+    handleLogoutCallback(): boolean {
+        const expectedState = sessionStorage.getItem(this.logoutStateKey());
+        if (!expectedState) {
+            return false;
+        }
+
+        sessionStorage.removeItem(this.logoutStateKey());
+
+        const state = new URLSearchParams(window.location.search).get('state');
+        if (state !== null && state !== expectedState) {
+            throw new OAuth2ClientError('state_mismatch', 'Invalid post-logout state parameter', { state });
+        }
+
+        return true;
+    }
+
+    /**
+     * sessionStorage key of the state sent to the end_session_endpoint
+     */
+    private logoutStateKey(): string {
+        return `${this.namespace}:logout_state`;
+    }
+}
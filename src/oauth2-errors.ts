@@ -0,0 +1,174 @@
+/**
+ * Error codes defined by RFC 6749 (sections 4.1.2.1 and 5.2), OpenID Connect Core 1.0 (section 3.1.2.6),
+ * RFC 7009 and RFC 8628, plus the codes of errors detected by the client itself
+ */
+export type OAuth2ErrorCode =
+    // Authorization and token endpoints
+    | 'invalid_request'
+    | 'unauthorized_client'
+    | 'access_denied'
+    | 'unsupported_response_type'
+    | 'invalid_scope'
+    | 'server_error'
+    | 'temporarily_unavailable'
+    | 'invalid_client'
+    | 'invalid_grant'
+    | 'unsupported_grant_type'
+    | 'unsupported_token_type'
+    // OpenID Connect
+    | 'interaction_required'
+    | 'login_required'
+    | 'account_selection_required'
+    | 'consent_required'
+    | 'invalid_request_uri'
+    | 'invalid_request_object'
+    | 'request_not_supported'
+    | 'request_uri_not_supported'
+    | 'registration_not_supported'
+    // Device authorization grant
+    | 'authorization_pending'
+    | 'slow_down'
+    | 'expired_token'
+    // Client side
+    | ClientErrorCode;
+
+export type ClientErrorCode =
+    | 'state_mismatch'
+    | 'missing_code'
+    | 'missing_verifier'
+    | 'missing_refresh_token'
+    | 'subject_mismatch'
+    | 'invalid_response'
+    | 'popup_blocked'
+    | 'popup_closed'
+    | 'timeout';
+
+export interface OAuth2ErrorOptions {
+    uri?: string | null;
+    state?: string | null;
+    // HTTP status of the response that carried the error, if any
+    status?: number | null;
+    message?: string;
+}
+
+/**
+ * Base class of all errors raised by the OAuth2 flows.
+ * `code` is a standard OAuth2/OIDC error code, or a client-side one (see ClientErrorCode);
+ * servers may also send codes of their own, so it is typed as a plain string.
+ */
+export class OAuth2Error extends Error {
+    readonly code: string;
+    readonly description: string | null;
+    readonly uri: string | null;
+    readonly state: string | null;
+    readonly status: number | null;
+
+    constructor(code: OAuth2ErrorCode | (string & {}), description: string | null = null, options: OAuth2ErrorOptions = {}) {
+        super(options.message ?? (description ? `OAuth error: ${code} - ${description}` : `OAuth error: ${code}`));
+        this.name = 'OAuth2Error';
+        this.code = code;
+        this.description = description;
+        this.uri = options.uri ?? null;
+        this.state = options.state ?? null;
+        this.status = options.status ?? null;
+    }
+
+    /**
+     * Whether the user has to sign in interactively (after prompt=none)
+     */
+    get interactionRequired(): boolean {
+        return ['login_required', 'interaction_required', 'consent_required', 'account_selection_required'].includes(this.code);
+    }
+
+    /**
+     * Whether trying again later may succeed
+     */
+    get temporary(): boolean {
+        return ['temporarily_unavailable', 'server_error'].includes(this.code) || (this.status !== null && this.status >= 500);
+    }
+}
+
+/**
+ * Error returned by the authorization server in the authorization response
+ * (RFC 6749, section 4.1.2.1), e.g. login_required or interaction_required after prompt=none
+ */
+export class AuthorizationError extends OAuth2Error {
+    constructor(code: string, description: string | null = null, uri: string | null = null, state: string | null = null) {
+        super(code, description, { uri, state });
+        this.name = 'AuthorizationError';
+    }
+}
+
+/**
+ * Error response from the token or revocation endpoint (RFC 6749, section 5.2)
+ */
+export class TokenRequestError extends OAuth2Error {
+    constructor(code: string, description: string | null, status: number, uri: string | null = null) {
+        super(code, description, { uri, status });
+        this.name = 'TokenRequestError';
+    }
+
+    /**
+     * Build the error from a failed response. Bodies that aren't an OAuth2 error
+     * (e.g. an HTML page from a proxy) become an invalid_response error.
+     */
+    static async fromResponse(response: Response): Promise<TokenRequestError> {
+        const text = await response.text();
+
+        try {
+            const body = JSON.parse(text);
+            if (body && typeof body.error === 'string') {
+                return new TokenRequestError(body.error, body.error_description ?? null, response.status, body.error_uri ?? null);
+            }
+        } catch (error) {
+            // Not JSON, handled below
+        }
+
+        return new TokenRequestError('invalid_response', `${response.status} - ${text.slice(0, 200)}`, response.status);
+    }
+}
+
+/**
+ * Error detected by the client itself, e.g. a callback whose state doesn't match a pending login
+ */
+export class OAuth2ClientError extends OAuth2Error {
+    declare readonly code: ClientErrorCode;
+
+    constructor(code: ClientErrorCode, description: string, options: OAuth2ErrorOptions = {}) {
+        super(code, description, { message: description, ...options });
+        this.name = 'OAuth2ClientError';
+    }
+}
+
+/**
+ * The browser blocked the login popup
+ */
+export class PopupBlockedError extends OAuth2ClientError {
+    constructor() {
+        super('popup_blocked', 'The login popup was blocked by the browser');
+        this.name = 'PopupBlockedError';
+    }
+}
+
+/**
+ * The user closed the login popup before finishing
+ */
+export class PopupClosedError extends OAuth2ClientError {
+    constructor() {
+        super('popup_closed', 'The login popup was closed before authentication finished');
+        this.name = 'PopupClosedError';
+    }
+}
+
+/**
+ * No authorization response arrived from the popup or iframe in time
+ */
+export class AuthorizationTimeoutError extends OAuth2ClientError {
+    readonly timeoutMs: number;
+
+    constructor(timeoutMs: number) {
+        super('timeout', `No authorization response within ${timeoutMs} ms`);
+        this.name = 'AuthorizationTimeoutError';
+        this.timeoutMs = timeoutMs;
+    }
+}
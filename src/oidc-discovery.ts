@@ -0,0 +1,99 @@
+import { memoizeUntilRejected } from './async-utils.js';
+
+export interface OidcProviderMetadata {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    device_authorization_endpoint?: string;
+    pushed_authorization_request_endpoint?: string;
+    require_pushed_authorization_requests?: boolean;
+    userinfo_endpoint?: string;
+    revocation_endpoint?: string;
+    end_session_endpoint?: string;
+    jwks_uri?: string;
+    scopes_supported?: string[];
+    response_types_supported?: string[];
+    grant_types_supported?: string[];
+    code_challenge_methods_supported?: string[];
+    id_token_signing_alg_values_supported?: string[];
+    [key: string]: unknown;
+}
+
+const DISCOVERY_PATH = '/.well-known/openid-configuration';
+const CACHE_KEY_PREFIX = 'oidc_discovery:';
+
+// Discovery documents already fetched in this page, keyed by issuer
+const loadCachedProviderMetadata = memoizeUntilRejected((issuer: string) => loadProviderMetadata(issuer));
+
+/**
+ * Remove the trailing slash so issuers compare equal however they were written
+ */
+function normalizeIssuer(issuerUrl: string): string {
+    return issuerUrl.replace(/\/+$/, '');
+}
+
+/**
+ * Fetch the OpenID Connect discovery document of an issuer.
+ * Results are cached in memory and in sessionStorage, so redirects back to the app don't refetch.
+ */
+export function fetchProviderMetadata(issuerUrl: string): Promise<OidcProviderMetadata> {
+    return loadCachedProviderMetadata(normalizeIssuer(issuerUrl));
+}
+
+/**
+ * Load the discovery document from sessionStorage or the network
+ */
+async function loadProviderMetadata(issuer: string): Promise<OidcProviderMetadata> {
+    const cached = sessionStorage.getItem(CACHE_KEY_PREFIX + issuer);
+    if (cached) {
+        try {
+            return JSON.parse(cached);
+        } catch (error) {
+            sessionStorage.removeItem(CACHE_KEY_PREFIX + issuer);
+        }
+    }
+
+    const response = await fetch(issuer + DISCOVERY_PATH, {
+        headers: {
+            'Accept': 'application/json'
+        }
+    });
+
+    if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Discovery failed for ${issuer}: ${response.status} - ${errorText}`);
+    }
+
+    const metadata: OidcProviderMetadata = await response.json();
+
+    // OpenID Connect Discovery 1.0, section 4.3: the issuer must match the one it was fetched for
+    if (normalizeIssuer(metadata.issuer || '') !== issuer) {
+        throw new Error(`Discovery issuer mismatch: expected ${issuer}, got ${metadata.issuer}`);
+    }
+
+    if (!metadata.authorization_endpoint || !metadata.token_endpoint) {
+        throw new Error(`Discovery document for ${issuer} is missing authorization_endpoint or token_endpoint`);
+    }
+
+    sessionStorage.setItem(CACHE_KEY_PREFIX + issuer, JSON.stringify(metadata));
+
+    return metadata;
+}
+
+/**
+ * Make sure the provider supports the authorization code flow with PKCE S256 used by OAuth2Client
+ */
+export function assertProviderSupportsClient(metadata: OidcProviderMetadata): void {
+    const responseTypes = metadata.response_types_supported;
+    if (responseTypes && !responseTypes.includes('code')) {
+        throw new Error(`Provider ${metadata.issuer} does not support response_type=code (supports: ${responseTypes.join(', ')})`);
+    }
+
+    const challengeMethods = metadata.code_challenge_methods_supported;
+    if (!challengeMethods) {
+        // Not advertising PKCE support is common, the provider may still accept it
+        console.warn(`Provider ${metadata.issuer} does not advertise code_challenge_methods_supported, assuming S256`);
+    } else if (!challengeMethods.includes('S256')) {
+        throw new Error(`Provider ${metadata.issuer} does not support PKCE with S256 (supports: ${challengeMethods.join(', ')})`);
+    }
+}
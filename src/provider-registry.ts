@@ -0,0 +1,157 @@
+import { OAuth2Client, AuthConfig, CallbackResult } from './oauth2-client.js';
+import { OAuth2ClientError } from './oauth2-errors.js';
+import { TypedEventEmitter } from './event-emitter.js';
+
+export interface ProviderDefinition {
+    // Stable identifier, also used for the storage namespace
+    id: string;
+    // Shown to the user, e.g. "Google" in "Sign in with Google"
+    label: string;
+    config: AuthConfig;
+}
+
+export interface ProviderCallbackResult extends CallbackResult {
+    provider: ProviderDefinition;
+}
+
+export interface ProviderEventMap {
+    // Another provider became the active one in this tab
+    activeProviderChanged: { provider: ProviderDefinition };
+}
+
+const ACTIVE_PROVIDER_KEY = 'oauth2:active-provider';
+
+/**
+ * Named identity providers, each with its own OAuth2Client and storage namespace,
+ * so tokens of different providers never mix. One provider is active at a time;
+ * the choice is kept in localStorage and shared by all tabs.
+ */
+export class ProviderRegistry {
+    private providers = new Map<string, ProviderDefinition>();
+    private clients = new Map<string, OAuth2Client>();
+    private events = new TypedEventEmitter<ProviderEventMap>();
+
+    constructor(providers: ProviderDefinition[]) {
+        if (providers.length === 0) {
+            throw new Error('At least one identity provider must be configured');
+        }
+
+        providers.forEach((provider, index) => {
+            if (this.providers.has(provider.id)) {
+                throw new Error(`Duplicate identity provider id "${provider.id}"`);
+            }
+
+            this.providers.set(provider.id, provider);
+            this.clients.set(provider.id, new OAuth2Client({
+                ...provider.config,
+                namespace: provider.config.namespace || `oauth2:${provider.id}`,
+                // Tokens of older, single-provider versions belong to the default provider
+                migrateLegacyTokens: provider.config.migrateLegacyTokens ?? index === 0
+            }));
+        });
+    }
+
+    /**
+     * Subscribe to a registry event; returns a function that unsubscribes
+     */
+    on<K extends keyof ProviderEventMap>(type: K, listener: (event: ProviderEventMap[K]) => void): () => void {
+        return this.events.on(type, listener);
+    }
+
+    /**
+     * Remove a listener added with on()
+     */
+    off<K extends keyof ProviderEventMap>(type: K, listener: (event: ProviderEventMap[K]) => void): void {
+        this.events.off(type, listener);
+    }
+
+    /**
+     * All providers, in registration order
+     */
+    list(): ProviderDefinition[] {
+        return [...this.providers.values()];
+    }
+
+    /**
+     * Get a provider by id
+     */
+    getProvider(id: string): ProviderDefinition {
+        const provider = this.providers.get(id);
+        if (!provider) {
+            throw new Error(`Unknown identity provider "${id}"`);
+        }
+        return provider;
+    }
+
+    /**
+     * Get the client of a provider
+     */
+    getClient(id: string): OAuth2Client {
+        return this.clients.get(this.getProvider(id).id)!;
+    }
+
+    /**
+     * The provider the user last signed in with, or the first one
+     */
+    getActiveProvider(): ProviderDefinition {
+        const id = localStorage.getItem(ACTIVE_PROVIDER_KEY);
+        return (id && this.providers.get(id)) || this.list()[0]!;
+    }
+
+    /**
+     * The client of the active provider
+     */
+    getActiveClient(): OAuth2Client {
+        return this.getClient(this.getActiveProvider().id);
+    }
+
+    /**
+     * Make a provider the active one. The sessions of the other providers are ended
+     * locally, so only one set of tokens is ever in use.
+     */
+    async activate(id: string): Promise<void> {
+        const provider = this.getProvider(id);
+        const changed = this.getActiveProvider().id !== id;
+        localStorage.setItem(ACTIVE_PROVIDER_KEY, id);
+
+        await Promise.all([...this.clients.entries()]
+            .filter(([providerId]) => providerId !== id)
+            .map(async ([, client]) => {
+                await client.whenReady();
+                if (client.isAuthenticated()) {
+                    await client.logout({ localOnly: true });
+                }
+            }));
+
+        if (changed) {
+            this.events.emit('activeProviderChanged', { provider });
+        }
+    }
+
+    /**
+     * Find the provider that started the authorization request a callback answers
+     */
+    findProviderForCallback(callbackUrl: string = window.location.href): ProviderDefinition | null {
+        const state = new URL(callbackUrl).searchParams.get('state');
+        if (!state) return null;
+
+        return this.list().find(provider => this.clients.get(provider.id)!.hasPendingAuthorization(state)) || null;
+    }
+
+    /**
+     * Handle a callback with the client of the provider that started the flow, then make it active
+     */
+    async handleCallback(callbackUrl: string = window.location.href): Promise<ProviderCallbackResult> {
+        const provider = this.findProviderForCallback(callbackUrl);
+        if (!provider) {
+            throw new OAuth2ClientError('state_mismatch', 'No identity provider started this authorization request', {
+                state: new URL(callbackUrl).searchParams.get('state')
+            });
+        }
+
+        const result = await this.getClient(provider.id).handleCallback(callbackUrl);
+        await this.activate(provider.id);
+
+        return { ...result, provider };
+    }
+}
@@ -0,0 +1,270 @@
+import { AuthConfig } from './oauth2-client.js';
+import { ApiPaths } from './api-client.js';
+import { ProviderDefinition } from './provider-registry.js';
+import { TokenStorageMode } from './token-store.js';
+import { SessionManagerOptions } from './session-manager.js';
+
+declare global {
+    interface Window {
+        // Inline configuration, takes precedence over config.json
+        __CONFIG__?: unknown;
+    }
+}
+
+/**
+ * Endpoint paths (relative to the provider's baseUrl) or absolute URLs
+ */
+export interface ProviderEndpoints {
+    authorization: string;
+    token: string;
+    deviceAuthorization?: string;
+    pushedAuthorizationRequest?: string;
+    userinfo?: string;
+    revocation?: string;
+    endSession?: string;
+    jwks?: string;
+}
+
+export interface RuntimeProviderConfig {
+    id: string;
+    label: string;
+    baseUrl: string;
+    issuer?: string;
+    clientId: string;
+    scope?: string;
+    storage?: TokenStorageMode;
+    roleClaimPath?: string;
+    // Sender-constrain tokens with DPoP; the provider and the API must support it
+    dpop?: boolean;
+    // Push authorization requests to endpoints.pushedAuthorizationRequest
+    par?: boolean;
+    endpoints: ProviderEndpoints;
+}
+
+/**
+ * Deployment-specific settings, loaded when the app starts
+ */
+export interface RuntimeConfig {
+    // Base URL of the resource server
+    apiBaseUrl: string;
+    api?: Partial<ApiPaths>;
+    providers: RuntimeProviderConfig[];
+    // Idle timeout and maximum lifetime of sessions
+    session?: Pick<SessionManagerOptions, 'idleTimeoutSeconds' | 'warningSeconds' | 'maxSessionSeconds'>;
+}
+
+/**
+ * The configuration is missing or invalid; `problems` lists every issue found
+ */
+export class ConfigError extends Error {
+    readonly problems: string[];
+
+    constructor(source: string, problems: string[]) {
+        super(`Invalid configuration in ${source}:\n${problems.map(problem => `- ${problem}`).join('\n')}`);
+        this.name = 'ConfigError';
+        this.problems = problems;
+    }
+}
+
+const STORAGE_MODES: TokenStorageMode[] = ['memory', 'session', 'local', 'indexeddb'];
+
+/**
+ * Load the runtime configuration from `window.__CONFIG__`, or else from config.json
+ */
+export async function loadRuntimeConfig(url: string = '/config.json'): Promise<RuntimeConfig> {
+    if (window.__CONFIG__ !== undefined) {
+        return validateRuntimeConfig(window.__CONFIG__, 'window.__CONFIG__');
+    }
+
+    let response: Response;
+    try {
+        // Always get the current file, it changes with the deployment and not with the app
+        response = await fetch(url, { cache: 'no-store' });
+    } catch (error) {
+        throw new ConfigError(url, [`could not be loaded: ${error instanceof Error ? error.message : error}`]);
+    }
+
+    if (!response.ok) {
+        throw new ConfigError(url, [`could not be loaded: HTTP ${response.status}`]);
+    }
+
+    let data: unknown;
+    try {
+        data = await response.json();
+    } catch (error) {
+        throw new ConfigError(url, ['is not valid JSON']);
+    }
+
+    return validateRuntimeConfig(data, url);
+}
+
+/**
+ * Check the shape of a configuration object, reporting all problems at once
+ */
+export function validateRuntimeConfig(data: unknown, source: string = 'configuration'): RuntimeConfig {
+    const problems: string[] = [];
+
+    if (!isObject(data)) {
+        throw new ConfigError(source, ['must be a JSON object']);
+    }
+
+    checkUrl(data, 'apiBaseUrl', 'apiBaseUrl', problems, true);
+
+    if (data.api !== undefined) {
+        if (!isObject(data.api)) {
+            problems.push('api must be an object');
+        } else {
+            ['public', 'protected', 'admin'].forEach(name => checkPath(data.api as Record<string, unknown>, name, `api.${name}`, problems, false));
+        }
+    }
+
+    if (data.session !== undefined) {
+        if (!isObject(data.session)) {
+            problems.push('session must be an object');
+        } else {
+            ['idleTimeoutSeconds', 'warningSeconds', 'maxSessionSeconds'].forEach(name => checkPositiveNumber(data.session as Record<string, unknown>, name, `session.${name}`, problems));
+        }
+    }
+
+    if (!Array.isArray(data.providers) || data.providers.length === 0) {
+        problems.push('providers must be a non-empty array');
+    } else {
+        const ids = new Set<string>();
+
+        data.providers.forEach((provider: unknown, index: number) => {
+            const at = `providers[${index}]`;
+            if (!isObject(provider)) {
+                problems.push(`${at} must be an object`);
+                return;
+            }
+
+            checkString(provider, 'id', `${at}.id`, problems, true);
+            if (typeof provider.id === 'string') {
+                if (ids.has(provider.id)) {
+                    problems.push(`${at}.id "${provider.id}" is used more than once`);
+                }
+                ids.add(provider.id);
+            }
+
+            checkString(provider, 'label', `${at}.label`, problems, true);
+            checkString(provider, 'clientId', `${at}.clientId`, problems, true);
+            checkString(provider, 'scope', `${at}.scope`, problems, false);
+            checkString(provider, 'roleClaimPath', `${at}.roleClaimPath`, problems, false);
+            checkUrl(provider, 'baseUrl', `${at}.baseUrl`, problems, true);
+            checkUrl(provider, 'issuer', `${at}.issuer`, problems, false);
+
+            if (provider.storage !== undefined && !STORAGE_MODES.includes(provider.storage as TokenStorageMode)) {
+                problems.push(`${at}.storage must be one of ${STORAGE_MODES.join(', ')}`);
+            }
+
+            ['dpop', 'par'].forEach(name => {
+                if (provider[name] !== undefined && typeof provider[name] !== 'boolean') {
+                    problems.push(`${at}.${name} must be true or false`);
+                }
+            });
+
+            if (!isObject(provider.endpoints)) {
+                problems.push(`${at}.endpoints must be an object`);
+            } else {
+                const endpoints = provider.endpoints;
+                checkPath(endpoints, 'authorization', `${at}.endpoints.authorization`, problems, true);
+                checkPath(endpoints, 'token', `${at}.endpoints.token`, problems, true);
+                ['deviceAuthorization', 'pushedAuthorizationRequest', 'userinfo', 'revocation', 'endSession', 'jwks'].forEach(name => checkPath(endpoints, name, `${at}.endpoints.${name}`, problems, false));
+            }
+        });
+    }
+
+    if (problems.length > 0) {
+        throw new ConfigError(source, problems);
+    }
+
+    return data as unknown as RuntimeConfig;
+}
+
+/**
+ * Build the provider registry entries of a runtime configuration
+ */
+export function toProviderDefinitions(config: RuntimeConfig): ProviderDefinition[] {
+    return config.providers.map(provider => {
+        const authConfig: AuthConfig = {
+            clientId: provider.clientId,
+            redirectUri: `${window.location.origin}/callback`,
+            baseUrl: provider.baseUrl,
+            authorizationEndpoint: provider.endpoints.authorization,
+            tokenEndpoint: provider.endpoints.token,
+            deviceAuthorizationEndpoint: provider.endpoints.deviceAuthorization,
+            pushedAuthorizationRequestEndpoint: provider.endpoints.pushedAuthorizationRequest,
+            userinfoEndpoint: provider.endpoints.userinfo,
+            revocationEndpoint: provider.endpoints.revocation,
+            endSessionEndpoint: provider.endpoints.endSession,
+            jwksUri: provider.endpoints.jwks,
+            issuer: provider.issuer,
+            postLogoutRedirectUri: `${window.location.origin}/logout-callback`,
+            scope: provider.scope,
+            roleClaimPath: provider.roleClaimPath,
+            storage: provider.storage,
+            dpop: provider.dpop,
+            par: provider.par
+        };
+
+        return { id: provider.id, label: provider.label, config: authConfig };
+    });
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Report a missing or non-string property
+ */
+function checkString(object: Record<string, unknown>, key: string, name: string, problems: string[], required: boolean): void {
+    const value = object[key];
+    if (value === undefined) {
+        if (required) problems.push(`${name} is required`);
+    } else if (typeof value !== 'string' || value.trim() === '') {
+        problems.push(`${name} must be a non-empty string`);
+    }
+}
+
+/**
+ * Report a property that is set but isn't a number above zero
+ */
+function checkPositiveNumber(object: Record<string, unknown>, key: string, name: string, problems: string[]): void {
+    const value = object[key];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value <= 0)) {
+        problems.push(`${name} must be a number above zero`);
+    }
+}
+
+/**
+ * Report a property that isn't an absolute http(s) URL
+ */
+function checkUrl(object: Record<string, unknown>, key: string, name: string, problems: string[], required: boolean): void {
+    const problemCount = problems.length;
+    checkString(object, key, name, problems, required);
+    if (problems.length > problemCount || object[key] === undefined) return;
+
+    try {
+        const url = new URL(object[key] as string);
+        if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+            problems.push(`${name} must be an http(s) URL`);
+        }
+    } catch (error) {
+        problems.push(`${name} must be an absolute URL, got "${object[key]}"`);
+    }
+}
+
+/**
+ * Report a property that is neither a path starting with "/" nor an absolute URL
+ */
+function checkPath(object: Record<string, unknown>, key: string, name: string, problems: string[], required: boolean): void {
+    const problemCount = problems.length;
+    checkString(object, key, name, problems, required);
+    if (problems.length > problemCount || object[key] === undefined) return;
+
+    const value = object[key] as string;
+    if (!value.startsWith('/') && !/^https?:\/\//i.test(value)) {
+        problems.push(`${name} must start with "/" or be an absolute URL, got "${value}"`);
+    }
+}
@@ -0,0 +1,331 @@
+import { LogoutOptions, OAuth2Client } from './oauth2-client.js';
+import { TypedEventEmitter } from './event-emitter.js';
+import { MAX_TIMER_DELAY_MS } from './async-utils.js';
+
+export interface SessionManagerOptions {
+    // Sign out after this long without user activity in any tab (default: no idle timeout)
+    idleTimeoutSeconds?: number;
+    // How long before the logout the warning is emitted (default: 60 seconds)
+    warningSeconds?: number;
+    // Sign out this long after login, however often the tokens are refreshed (default: no limit)
+    maxSessionSeconds?: number;
+    // DOM events on window that count as activity
+    activityEvents?: string[];
+    // Passed to logout() when the session times out
+    logoutOptions?: LogoutOptions;
+}
+
+export type SessionEndReason = 'idle' | 'maxLifetime';
+
+/**
+ * Events emitted by SessionManager, by name, with the payload their listeners receive
+ */
+export interface SessionManagerEventMap {
+    // The session ends at logoutAt; an idle warning can be dismissed with staySignedIn()
+    warning: { reason: SessionEndReason; logoutAt: number };
+    // Activity here or in another tab, or a logout, took the warning back
+    warningCancelled: { reason: SessionEndReason };
+    // The session ran out; logout() is called, contacting the server from one tab only
+    timeout: { reason: SessionEndReason };
+}
+
+const DEFAULT_WARNING_S = 60;
+const DEFAULT_ACTIVITY_EVENTS = ['mousedown', 'keydown', 'touchstart', 'wheel', 'scroll'];
+// Record activity at most once a second, so mouse wheels and scrolling don't hammer localStorage
+const ACTIVITY_WRITE_INTERVAL_MS = 1000;
+
+/**
+ * Ends idle sessions, and all sessions after a maximum lifetime, for shared workstations.
+ * Activity and the login time are kept in localStorage, so all tabs share one idle timer and
+ * a reload doesn't start the session over. Emits a warning before signing out, then one tab
+ * calls the client's logout(). Without either limit configured it does nothing.
+ */
+export class SessionManager {
+    private client: OAuth2Client;
+    private idleTimeoutMs: number | null;
+    private warningMs: number;
+    private maxSessionMs: number | null;
+    private activityEvents: string[];
+    private logoutOptions: LogoutOptions;
+    private events = new TypedEventEmitter<SessionManagerEventMap>();
+    private running = false;
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    // The warning in effect, if any
+    private warning: SessionEndReason | null = null;
+    private unsubscribers: (() => void)[] = [];
+    private activityListener = () => this.recordActivity();
+    private storageListener = (event: StorageEvent) => {
+        if (event.key === this.activityKey() || event.key === this.sessionStartKey()) {
+            this.schedule();
+        }
+    };
+
+    constructor(client: OAuth2Client, options: SessionManagerOptions = {}) {
+        this.client = client;
+        this.idleTimeoutMs = options.idleTimeoutSeconds ? options.idleTimeoutSeconds * 1000 : null;
+        this.maxSessionMs = options.maxSessionSeconds ? options.maxSessionSeconds * 1000 : null;
+        // The warning can't start before the session does
+        this.warningMs = Math.min((options.warningSeconds ?? DEFAULT_WARNING_S) * 1000, this.idleTimeoutMs ?? Infinity, this.maxSessionMs ?? Infinity);
+        this.activityEvents = options.activityEvents || DEFAULT_ACTIVITY_EVENTS;
+        this.logoutOptions = options.logoutOptions || {};
+
+        this.unsubscribers.push(
+            client.on('login', ({ fromOtherTab }) => this.start(!fromOtherTab)),
+            // An expired token found on load is renewed in the background, the session goes on
+            client.on('tokenRefreshed', () => this.start(false)),
+            client.on('logout', () => this.end())
+        );
+
+        client.whenReady().then(() => {
+            if (client.isAuthenticated()) {
+                this.start(false);
+            }
+        });
+    }
+
+    /**
+     * Subscribe to a session event; returns a function that unsubscribes
+     */
+    on<K extends keyof SessionManagerEventMap>(type: K, listener: (event: SessionManagerEventMap[K]) => void): () => void {
+        return this.events.on(type, listener);
+    }
+
+    /**
+     * Remove a listener added with on()
+     */
+    off<K extends keyof SessionManagerEventMap>(type: K, listener: (event: SessionManagerEventMap[K]) => void): void {
+        this.events.off(type, listener);
+    }
+
+    /**
+     * Count the user as active. Called for the activity DOM events; ignored while a warning
+     * is shown, so only an explicit staySignedIn() keeps the session.
+     */
+    recordActivity(): void {
+        if (!this.running || this.warning || this.idleTimeoutMs === null) return;
+
+        const lastActivity = this.readTime(this.activityKey());
+        // Very short idle timeouts need a finer resolution than the write interval
+        if (lastActivity === null || Date.now() - lastActivity >= Math.min(ACTIVITY_WRITE_INTERVAL_MS, this.idleTimeoutMs / 10)) {
+            this.writeTime(this.activityKey(), Date.now());
+        }
+    }
+
+    /**
+     * Answer an idle warning: restart the idle period in all tabs.
+     * The maximum session lifetime can't be extended.
+     */
+    staySignedIn(): void {
+        if (!this.running) return;
+
+        this.writeTime(this.activityKey(), Date.now());
+        this.schedule();
+    }
+
+    /**
+     * When the session will end, if it is being tracked
+     */
+    getLogoutTime(): number | null {
+        const logoutAt = this.running ? this.deadline().logoutAt : Infinity;
+        return Number.isFinite(logoutAt) ? logoutAt : null;
+    }
+
+    /**
+     * Stop tracking and unsubscribe from the client
+     */
+    dispose(): void {
+        this.stop();
+        this.unsubscribers.forEach(unsubscribe => unsubscribe());
+        this.unsubscribers = [];
+    }
+
+    /**
+     * Start tracking a session. A login in this tab resets the idle period, and starts a new
+     * session unless one is already tracked: step-up logins don't extend the maximum lifetime.
+     */
+    private start(newLogin: boolean): void {
+        if (this.idleTimeoutMs === null && this.maxSessionMs === null) return;
+
+        const now = Date.now();
+        if ((newLogin && !this.running) || this.readTime(this.sessionStartKey()) === null) {
+            this.writeTime(this.sessionStartKey(), now);
+        }
+        if (newLogin || this.readTime(this.activityKey()) === null) {
+            this.writeTime(this.activityKey(), now);
+        }
+
+        if (!this.running) {
+            this.running = true;
+            this.activityEvents.forEach(type => window.addEventListener(type, this.activityListener, { capture: true, passive: true }));
+            window.addEventListener('storage', this.storageListener);
+        }
+        this.schedule();
+    }
+
+    /**
+     * The session ended: forget its times and stop tracking
+     */
+    private end(): void {
+        localStorage.removeItem(this.activityKey());
+        localStorage.removeItem(this.sessionStartKey());
+        this.stop();
+    }
+
+    /**
+     * Stop tracking, taking back a warning in effect
+     */
+    private stop(): void {
+        if (this.timer !== null) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+
+        if (this.running) {
+            this.running = false;
+            this.activityEvents.forEach(type => window.removeEventListener(type, this.activityListener, { capture: true }));
+            window.removeEventListener('storage', this.storageListener);
+        }
+
+        this.setWarning(null, 0);
+    }
+
+    /**
+     * Warn or sign out when it's time, else wait until it is.
+     * The times are read again each time, as other tabs move them.
+     */
+    private schedule(): void {
+        if (!this.running) return;
+
+        if (this.timer !== null) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+
+        const { logoutAt, reason } = this.deadline();
+        const now = Date.now();
+
+        if (now >= logoutAt) {
+            this.timeOut(reason, logoutAt);
+            return;
+        }
+
+        const warnAt = logoutAt - this.warningMs;
+        this.setWarning(now >= warnAt ? reason : null, logoutAt);
+
+        // Only the lifetime is limited, and another tab just ended the session
+        if (!Number.isFinite(logoutAt)) return;
+
+        const wakeAt = now >= warnAt ? logoutAt : warnAt;
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            this.schedule();
+        }, Math.min(wakeAt - now, MAX_TIMER_DELAY_MS));
+    }
+
+    /**
+     * When and why the session ends: the earlier of the idle timeout and the maximum lifetime
+     */
+    private deadline(): { logoutAt: number; reason: SessionEndReason } {
+        const idleAt = this.idleTimeoutMs !== null ? (this.readTime(this.activityKey()) ?? Date.now()) + this.idleTimeoutMs : Infinity;
+        const sessionStart = this.readTime(this.sessionStartKey());
+        const maxAt = this.maxSessionMs !== null && sessionStart !== null ? sessionStart + this.maxSessionMs : Infinity;
+
+        return maxAt <= idleAt ? { logoutAt: maxAt, reason: 'maxLifetime' } : { logoutAt: idleAt, reason: 'idle' };
+    }
+
+    /**
+     * Emit warning or warningCancelled when the warning in effect changes
+     */
+    private setWarning(reason: SessionEndReason | null, logoutAt: number): void {
+        const previous = this.warning;
+        if (reason === previous) return;
+
+        this.warning = reason;
+        if (previous) {
+            this.events.emit('warningCancelled', { reason: previous });
+        }
+        if (reason) {
+            this.events.emit('warning', { reason, logoutAt });
+        }
+    }
+
+    /**
+     * Sign out because the session ran out. All tabs get here at the same time and each ends
+     * its own session, but only the one that claims the timeout revokes the tokens and ends
+     * the provider session, so that happens once. Only a tab holding tokens may claim it.
+     */
+    private timeOut(reason: SessionEndReason, logoutAt: number): void {
+        this.warning = null;
+        this.stop();
+        this.events.emit('timeout', { reason });
+
+        const signOut = async () => {
+            const claimed = this.client.isAuthenticated() && await this.claimTimeout(logoutAt);
+            await this.client.logout(claimed ? this.logoutOptions : { localOnly: true });
+        };
+        signOut().catch(error => {
+            console.error('Logout after session timeout failed:', error);
+        });
+    }
+
+    /**
+     * Compare-and-set on the timed out deadline, which all tabs compute from the same times:
+     * the first tab to record it signs out. A Web Lock makes this atomic where supported.
+     */
+    private async claimTimeout(logoutAt: number): Promise<boolean> {
+        const claim = (): boolean => {
+            if (localStorage.getItem(this.timeoutClaimKey()) === String(logoutAt)) {
+                return false;
+            }
+            localStorage.setItem(this.timeoutClaimKey(), String(logoutAt));
+            return true;
+        };
+
+        if (typeof navigator === 'undefined' || !navigator.locks) {
+            return claim();
+        }
+
+        let claimed = false;
+        await navigator.locks.request(`${this.client.getNamespace()}:session-timeout`, () => {
+            claimed = claim();
+        });
+        return claimed;
+    }
+
+    /**
+     * localStorage key of the time of the last activity in any tab
+     */
+    private activityKey(): string {
+        return `${this.client.getNamespace()}:last-activity`;
+    }
+
+    /**
+     * localStorage key of the time the session started
+     */
+    private sessionStartKey(): string {
+        return `${this.client.getNamespace()}:session-start`;
+    }
+
+    /**
+     * localStorage key of the deadline a tab has signed out for.
+     * It stays after the logout, so a tab that times out late still finds it.
+     */
+    private timeoutClaimKey(): string {
+        return `${this.client.getNamespace()}:timeout-claim`;
+    }
+
+    /**
+     * Read a time in milliseconds since the epoch from localStorage
+     */
+    private readTime(key: string): number | null {
+        const value = Number(localStorage.getItem(key));
+        return value > 0 ? value : null;
+    }
+
+    /**
+     * Write a time to localStorage, where the other tabs see it
+     */
+    private writeTime(key: string, time: number): void {
+        localStorage.setItem(key, String(time));
+    }
+}
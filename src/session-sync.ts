@@ -0,0 +1,112 @@
+export type SessionSyncEventType = 'login' | 'refresh' | 'logout';
+
+interface SessionSyncMessage {
+    type: SessionSyncEventType;
+    sentAt: number;
+}
+
+/**
+ * Broadcasts session changes to the other tabs of the same origin and
+ * serializes token refreshes between them.
+ * Uses BroadcastChannel, falling back to localStorage `storage` events.
+ */
+export class SessionSync {
+    private namespace: string;
+    private channel: BroadcastChannel | null = null;
+    private listeners = new Set<(type: SessionSyncEventType) => void>();
+    private storageListener: ((event: StorageEvent) => void) | null = null;
+
+    constructor(namespace: string) {
+        this.namespace = namespace;
+
+        if (typeof BroadcastChannel !== 'undefined') {
+            this.channel = new BroadcastChannel(`${namespace}:sync`);
+            this.channel.onmessage = (event: MessageEvent<SessionSyncMessage>) => this.receive(event.data);
+        } else {
+            this.storageListener = (event: StorageEvent) => {
+                // Removing the key fires an event too, without a new value
+                if (event.key !== this.storageKey() || !event.newValue) return;
+
+                let message: SessionSyncMessage;
+                try {
+                    message = JSON.parse(event.newValue);
+                } catch (error) {
+                    // Not written by publish(), e.g. another script using the same key
+                    return;
+                }
+                if (typeof message?.type === 'string') {
+                    this.receive(message);
+                }
+            };
+            window.addEventListener('storage', this.storageListener);
+        }
+    }
+
+    /**
+     * Tell the other tabs about a session change
+     */
+    publish(type: SessionSyncEventType): void {
+        const message: SessionSyncMessage = { type, sentAt: Date.now() };
+
+        if (this.channel) {
+            this.channel.postMessage(message);
+        } else {
+            // The timestamp makes every write a change, otherwise no storage event would fire
+            localStorage.setItem(this.storageKey(), JSON.stringify(message));
+            localStorage.removeItem(this.storageKey());
+        }
+    }
+
+    /**
+     * Listen for session changes made in other tabs
+     */
+    subscribe(listener: (type: SessionSyncEventType) => void): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    /**
+     * Run a token refresh while holding a lock shared by all tabs, so only one tab talks
+     * to the token endpoint at a time. Without Web Locks support the action runs directly.
+     */
+    async withRefreshLock<T>(action: () => Promise<T>): Promise<T> {
+        if (typeof navigator === 'undefined' || !navigator.locks) {
+            return action();
+        }
+
+        let result!: T;
+        await navigator.locks.request(`${this.namespace}:refresh`, async () => {
+            result = await action();
+        });
+        return result;
+    }
+
+    /**
+     * Stop listening to other tabs
+     */
+    close(): void {
+        this.channel?.close();
+        this.channel = null;
+        if (this.storageListener) {
+            window.removeEventListener('storage', this.storageListener);
+            this.storageListener = null;
+        }
+        this.listeners.clear();
+    }
+
+    /**
+     * localStorage key used by the storage event fallback
+     */
+    private storageKey(): string {
+        return `${this.namespace}:sync`;
+    }
+
+    /**
+     * Pass a message from another tab to the listeners
+     */
+    private receive(message: SessionSyncMessage): void {
+        this.listeners.forEach(listener => listener(message.type));
+    }
+}
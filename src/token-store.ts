@@ -0,0 +1,164 @@
+import { withStore } from './idb.js';
+
+export interface StoredTokens {
+    accessToken: string | null;
+    refreshToken: string | null;
+    idToken: string | null;
+    expiresAt: number | null;
+    // Scope granted with the access token; missing in entries written by older versions
+    scope?: string | null;
+}
+
+/**
+ * Persistence backend for OAuth2Client tokens
+ */
+export interface TokenStore {
+    load(): Promise<StoredTokens | null>;
+    save(tokens: StoredTokens): Promise<void>;
+    clear(): Promise<void>;
+}
+
+export type TokenStorageMode = 'memory' | 'session' | 'local' | 'indexeddb';
+
+/**
+ * Keeps tokens in memory only, they are gone after a reload
+ */
+export class MemoryTokenStore implements TokenStore {
+    private tokens: StoredTokens | null = null;
+
+    async load(): Promise<StoredTokens | null> {
+        return this.tokens;
+    }
+
+    async save(tokens: StoredTokens): Promise<void> {
+        this.tokens = { ...tokens };
+    }
+
+    async clear(): Promise<void> {
+        this.tokens = null;
+    }
+}
+
+/**
+ * Keeps tokens as JSON in sessionStorage or localStorage
+ */
+export class WebStorageTokenStore implements TokenStore {
+    private storage: Storage;
+    private key: string;
+
+    constructor(storage: Storage, namespace: string) {
+        this.storage = storage;
+        this.key = `${namespace}:tokens`;
+    }
+
+    async load(): Promise<StoredTokens | null> {
+        const value = this.storage.getItem(this.key);
+        if (!value) return null;
+
+        try {
+            return JSON.parse(value);
+        } catch (error) {
+            this.storage.removeItem(this.key);
+            return null;
+        }
+    }
+
+    async save(tokens: StoredTokens): Promise<void> {
+        this.storage.setItem(this.key, JSON.stringify(tokens));
+    }
+
+    async clear(): Promise<void> {
+        this.storage.removeItem(this.key);
+    }
+}
+
+interface EncryptedEntry {
+    iv: Uint8Array<ArrayBuffer>;
+    data: ArrayBuffer;
+}
+
+/**
+ * Keeps tokens in IndexedDB, encrypted with a non-extractable AES-GCM key.
+ * The key is stored next to the data but can't be exported, so a script can only
+ * use the tokens from this origin and not copy them anywhere.
+ */
+export class IndexedDbTokenStore implements TokenStore {
+    private keyId: string;
+    private dataId: string;
+
+    constructor(namespace: string) {
+        this.keyId = `${namespace}:key`;
+        this.dataId = `${namespace}:tokens`;
+    }
+
+    async load(): Promise<StoredTokens | null> {
+        const key = await withStore<CryptoKey | undefined>('readonly', store => store.get(this.keyId));
+        const entry = await withStore<EncryptedEntry | undefined>('readonly', store => store.get(this.dataId));
+        if (!key || !entry) return null;
+
+        try {
+            const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: entry.iv }, key, entry.data);
+            return JSON.parse(new TextDecoder().decode(data));
+        } catch (error) {
+            // Undecryptable data is useless, e.g. after the key was replaced
+            await this.clear();
+            return null;
+        }
+    }
+
+    async save(tokens: StoredTokens): Promise<void> {
+        const key = await this.getOrCreateKey();
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const data = await crypto.subtle.encrypt(
+            { name: 'AES-GCM', iv },
+            key,
+            new TextEncoder().encode(JSON.stringify(tokens))
+        );
+
+        const entry: EncryptedEntry = { iv, data };
+        await withStore('readwrite', store => store.put(entry, this.dataId));
+    }
+
+    async clear(): Promise<void> {
+        await withStore('readwrite', store => store.delete(this.dataId));
+    }
+
+    /**
+     * Get the encryption key, generating a non-extractable one on first use
+     */
+    private async getOrCreateKey(): Promise<CryptoKey> {
+        const existing = await withStore<CryptoKey | undefined>('readonly', store => store.get(this.keyId));
+        if (existing) return existing;
+
+        const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+        try {
+            // add() fails when another tab stored a key meanwhile; replacing it would make its tokens undecryptable
+            await withStore('readwrite', store => store.add(key, this.keyId));
+            return key;
+        } catch (error) {
+            const stored = await withStore<CryptoKey | undefined>('readonly', store => store.get(this.keyId));
+            if (!stored) throw error;
+            return stored;
+        }
+    }
+}
+
+/**
+ * Create the token store for a storage mode; custom stores are passed through
+ */
+export function createTokenStore(storage: TokenStorageMode | TokenStore, namespace: string): TokenStore {
+    if (typeof storage !== 'string') {
+        return storage;
+    }
+
+    switch (storage) {
+        case 'memory':
+            return new MemoryTokenStore();
+        case 'session':
+            return new WebStorageTokenStore(sessionStorage, namespace);
+        case 'local':
+            return new WebStorageTokenStore(localStorage, namespace);
+        case 'indexeddb':
+            return new IndexedDbTokenStore(namespace);
+    }
+}
@@ -0,0 +1,110 @@
+/**
+ * Everything needed to finish one authorization request when its callback arrives
+ */
+export interface AuthTransaction {
+    state: string;
+    codeVerifier: string;
+    nonce: string;
+    maxAge?: number;
+    // Requested scope, granted when the token response doesn't list one
+    scope?: string;
+    // Same-origin path to return to after login
+    returnTo?: string;
+    // Opaque application state, handed back by handleCallback()
+    appState?: unknown;
+    createdAt: number;
+    expiresAt: number;
+}
+
+// Pending logins older than this are discarded
+const DEFAULT_TRANSACTION_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Keeps pending authorization requests in sessionStorage, one entry per state value, so
+ * concurrent logins don't overwrite each other. The code verifier and nonce stay in the tab
+ * that started the login: redirects come back to that tab, and popups and iframes post their
+ * callback URL to it. Each entry is removed as soon as its callback is handled.
+ */
+export class TransactionStore {
+    private prefix: string;
+    private ttlMs: number;
+
+    constructor(namespace: string, ttlMs: number = DEFAULT_TRANSACTION_TTL_MS) {
+        this.prefix = `${namespace}:tx:`;
+        this.ttlMs = ttlMs;
+    }
+
+    /**
+     * Store a new transaction; expired ones are cleaned up on the way
+     */
+    save(transaction: Omit<AuthTransaction, 'createdAt' | 'expiresAt'>): AuthTransaction {
+        this.purgeExpired();
+
+        const now = Date.now();
+        const stored: AuthTransaction = { ...transaction, createdAt: now, expiresAt: now + this.ttlMs };
+        sessionStorage.setItem(this.prefix + transaction.state, JSON.stringify(stored));
+        return stored;
+    }
+
+    /**
+     * Remove and return the transaction for a state, or null when unknown or expired
+     */
+    take(state: string): AuthTransaction | null {
+        const transaction = this.read(this.prefix + state);
+        this.remove(state);
+
+        return transaction && transaction.expiresAt > Date.now() ? transaction : null;
+    }
+
+    /**
+     * Check for a pending, unexpired transaction without consuming it
+     */
+    has(state: string): boolean {
+        const transaction = this.read(this.prefix + state);
+        return !!transaction && transaction.expiresAt > Date.now();
+    }
+
+    /**
+     * Remove the transaction for a state
+     */
+    remove(state: string): void {
+        sessionStorage.removeItem(this.prefix + state);
+    }
+
+    /**
+     * Remove all expired transactions
+     */
+    purgeExpired(): void {
+        const now = Date.now();
+
+        // Collect the keys first, removing items while iterating shifts the indexes
+        const keys: string[] = [];
+        for (let i = 0; i < sessionStorage.length; i++) {
+            const key = sessionStorage.key(i);
+            if (key && key.startsWith(this.prefix)) {
+                keys.push(key);
+            }
+        }
+
+        keys.forEach(key => {
+            const transaction = this.read(key);
+            if (!transaction || transaction.expiresAt <= now) {
+                sessionStorage.removeItem(key);
+            }
+        });
+    }
+
+    /**
+     * Parse a stored transaction
+     */
+    private read(key: string): AuthTransaction | null {
+        const value = sessionStorage.getItem(key);
+        if (!value) return null;
+
+        try {
+            return JSON.parse(value);
+        } catch (error) {
+            return null;
+        }
+    }
+}
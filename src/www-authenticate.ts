@@ -0,0 +1,40 @@
+export interface AuthChallenge {
+    scheme: string;
+    params: Record<string, string>;
+}
+
+/**
+ * Parse a WWW-Authenticate header (RFC 9110, section 11.6.1) into its challenges,
+ * e.g. `Bearer realm="api", error="invalid_token"` or `DPoP algs="ES256", Bearer`
+ */
+export function parseAuthChallenges(header: string | null): AuthChallenge[] {
+    const challenges: AuthChallenge[] = [];
+    if (!header) return challenges;
+
+    // A scheme token, or a name=value pair whose value is a token or a quoted string
+    const pattern = /\s*,?\s*([!#$%&'*+.^_`|~0-9A-Za-z-]+)(?:\s*=\s*("(?:[^"\\]|\\.)*"|[^\s,]*))?/g;
+    let current: AuthChallenge | null = null;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(header)) !== null && match[0].length > 0) {
+        const [, name, value] = match as unknown as [string, string, string | undefined];
+
+        if (value === undefined) {
+            current = { scheme: name, params: {} };
+            challenges.push(current);
+        } else if (current) {
+            current.params[name.toLowerCase()] = value.startsWith('"')
+                ? value.slice(1, -1).replace(/\\(.)/g, '$1')
+                : value;
+        }
+    }
+
+    return challenges;
+}
+
+/**
+ * Find the challenge for an authentication scheme (case-insensitive)
+ */
+export function findAuthChallenge(header: string | null, scheme: string): AuthChallenge | undefined {
+    return parseAuthChallenges(header).find(challenge => challenge.scheme.toLowerCase() === scheme.toLowerCase());
+}
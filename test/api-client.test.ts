@@ -0,0 +1,273 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { installBrowserEnv } from './support/browser-env.js';
+import { createClient, disposeClients, login } from './support/session.js';
+import { MockAuthServer } from './mock-server/mock-server.js';
+import { ApiClient, StepUpChallenge } from '../src/api-client.js';
+import { OAuth2Client } from '../src/oauth2-client.js';
+
+const env = installBrowserEnv();
+const server = new MockAuthServer();
+
+let oauth2Client: OAuth2Client;
+let apiClient: ApiClient;
+let stepUpChallenges: StepUpChallenge[];
+
+before(() => server.start());
+after(() => server.stop());
+
+beforeEach(() => {
+    oauth2Client = createClient(server);
+    stepUpChallenges = [];
+    // Wired like the demo app, with a step-up handler that logs in again with the required scope
+    apiClient = new ApiClient(server.baseUrl, {
+        tokenProvider: ({ forceRefresh, scope, audience }) => forceRefresh
+            ? oauth2Client.renewAccessToken({ scope, audience })
+            : oauth2Client.getValidAccessToken({ scope, audience }),
+        stepUpHandler: async challenge => {
+            stepUpChallenges.push(challenge);
+            await login(oauth2Client, env, { scope: `${oauth2Client.getScopes().join(' ')} ${challenge.scope}` });
+            return true;
+        },
+        retry: { baseDelayMs: 1, maxDelayMs: 5 }
+    });
+});
+
+afterEach(async () => {
+    await disposeClients();
+    server.reset();
+    env.reset();
+});
+
+describe('public and protected calls', () => {
+    it('calls the public API without a token', async () => {
+        const response = await apiClient.callPublicApi();
+
+        assert.ok(response.ok);
+        assert.deepEqual(response.data, { message: 'Public data' });
+        assert.equal(server.requestsTo('public')[0]!.headers.authorization, undefined);
+    });
+
+    it('does not call a protected API without a session', async () => {
+        const response = await apiClient.callProtectedApi();
+
+        assert.equal(response.ok, false);
+        assert.equal(response.status, 401);
+        assert.equal(!response.ok && response.error.kind, 'unauthenticated');
+        assert.equal(server.requestsTo('protected').length, 0);
+    });
+
+    it('sends the access token as a Bearer token', async () => {
+        await login(oauth2Client, env);
+
+        const response = await apiClient.callProtectedApi<{ user: string }>();
+
+        assert.ok(response.ok);
+        assert.equal(response.data.user, server.user.sub);
+        assert.equal(server.requestsTo('protected')[0]!.headers.authorization, `Bearer ${oauth2Client.getAccessToken()}`);
+    });
+
+    it('retries an idempotent request after a 503', async () => {
+        server.failNext('public', { status: 503, body: { error: 'unavailable' } });
+
+        const response = await apiClient.callPublicApi();
+
+        assert.ok(response.ok);
+        assert.equal(server.requestsTo('public').length, 2);
+    });
+});
+
+describe('timeouts and aborts', () => {
+    it('reports a request that takes too long as a timeout', async () => {
+        server.failNext('public', { status: 200, body: { message: 'Late' }, delayMs: 500 });
+
+        const response = await apiClient.get('/api/v1/public', { timeoutMs: 50, retry: false });
+
+        assert.equal(response.ok, false);
+        assert.equal(response.status, 0);
+        assert.equal(!response.ok && response.error.kind, 'timeout');
+    });
+
+    it('retries an idempotent request that timed out', async () => {
+        server.failNext('public', { status: 200, body: { message: 'Late' }, delayMs: 500 });
+
+        const response = await apiClient.get<{ message: string }>('/api/v1/public', { timeoutMs: 100 });
+
+        assert.ok(response.ok);
+        assert.equal(response.data.message, 'Public data');
+        assert.equal(server.requestsTo('public').length, 2);
+    });
+
+    it('stops and does not retry when the caller aborts', async () => {
+        server.failNext('public', { status: 200, body: { message: 'Late' }, delayMs: 500 });
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 50);
+
+        const response = await apiClient.get('/api/v1/public', { signal: controller.signal });
+
+        assert.equal(response.status, 0);
+        assert.equal(!response.ok && response.error.kind, 'aborted');
+        assert.equal(server.requestsTo('public').length, 1);
+    });
+
+    it('does not send a request whose signal is already aborted', async () => {
+        const response = await apiClient.get('/api/v1/public', { signal: AbortSignal.abort() });
+
+        assert.equal(!response.ok && response.error.kind, 'aborted');
+        assert.equal(server.requestsTo('public').length, 0);
+    });
+});
+
+describe('Retry-After', () => {
+    it('waits the number of seconds the server asks for', async () => {
+        server.failNext('public', { status: 503, headers: { 'Retry-After': '1' } });
+        const startedAt = Date.now();
+
+        const response = await apiClient.get('/api/v1/public', { retry: { maxDelayMs: 2000 } });
+
+        assert.ok(response.ok);
+        assert.ok(Date.now() - startedAt >= 950);
+        assert.equal(server.requestsTo('public').length, 2);
+    });
+
+    it('waits until the HTTP date the server names', async () => {
+        const retryAt = new Date(Date.now() + 2000);
+        server.failNext('public', { status: 429, headers: { 'Retry-After': retryAt.toUTCString() } });
+
+        const response = await apiClient.get('/api/v1/public', { retry: { maxDelayMs: 3000 } });
+
+        assert.ok(response.ok);
+        // HTTP dates have a resolution of one second
+        assert.ok(Date.now() >= Math.floor(retryAt.getTime() / 1000) * 1000 - 50);
+        assert.equal(server.requestsTo('public').length, 2);
+    });
+
+    it('retries right away when the HTTP date has passed', async () => {
+        server.failNext('public', { status: 503, headers: { 'Retry-After': new Date(Date.now() - 60 * 1000).toUTCString() } });
+
+        const response = await apiClient.get('/api/v1/public');
+
+        assert.ok(response.ok);
+        assert.equal(server.requestsTo('public').length, 2);
+    });
+
+    it('returns the response instead of waiting longer than the retry policy allows', async () => {
+        server.failNext('public', { status: 503, headers: { 'Retry-After': '3600' } });
+        server.failNext('public', { status: 503, headers: { 'Retry-After': new Date(Date.now() + 3600 * 1000).toUTCString() } });
+
+        const inSeconds = await apiClient.get('/api/v1/public');
+        const atDate = await apiClient.get('/api/v1/public');
+
+        assert.deepEqual([inSeconds.status, atDate.status], [503, 503]);
+        assert.equal(!inSeconds.ok && inSeconds.error.kind, 'http');
+        assert.equal(server.requestsTo('public').length, 2);
+    });
+});
+
+describe('401 handling', () => {
+    it('refreshes a rejected token and replays the request once', async () => {
+        await login(oauth2Client, env);
+        const rejectedToken = oauth2Client.getAccessToken();
+        server.expireAccessTokens();
+
+        const response = await apiClient.callProtectedApi();
+
+        assert.ok(response.ok);
+        assert.notEqual(oauth2Client.getAccessToken(), rejectedToken);
+        assert.equal(server.requestsTo('protected').length, 2);
+        assert.equal(server.requestsTo('token')[1]!.params.get('grant_type'), 'refresh_token');
+    });
+
+    it('refreshes once for concurrent requests with the same rejected token', async () => {
+        await login(oauth2Client, env);
+        server.expireAccessTokens();
+
+        const responses = await Promise.all([apiClient.callProtectedApi(), apiClient.callProtectedApi(), apiClient.callProtectedApi()]);
+
+        assert.ok(responses.every(response => response.ok));
+        assert.equal(server.requestsTo('token').length, 2);
+    });
+
+    it('reports the session as ended when the replayed request is rejected too', async () => {
+        await login(oauth2Client, env);
+        let unauthenticated = 0;
+        apiClient.onUnauthenticated(() => unauthenticated++);
+        server.failNext('protected', {
+            status: 401,
+            headers: { 'WWW-Authenticate': 'Bearer error="invalid_token"' }
+        }, 2);
+
+        const response = await apiClient.callProtectedApi();
+
+        assert.equal(response.status, 401);
+        assert.equal(unauthenticated, 1);
+        assert.equal(server.requestsTo('protected').length, 2);
+    });
+
+    it('reports the session as ended when the refresh token was revoked', async () => {
+        await login(oauth2Client, env);
+        let unauthenticated = 0;
+        apiClient.onUnauthenticated(() => unauthenticated++);
+        server.expireAccessTokens();
+        server.revokeRefreshTokens();
+
+        const response = await apiClient.callProtectedApi();
+
+        assert.equal(response.status, 401);
+        assert.equal(unauthenticated, 1);
+        assert.equal(oauth2Client.isAuthenticated(), false);
+    });
+
+    it('does not refresh on a 401 without error="invalid_token"', async () => {
+        await login(oauth2Client, env);
+        server.failNext('protected', { status: 401, headers: { 'WWW-Authenticate': 'Bearer realm="mock"' } });
+
+        const response = await apiClient.callProtectedApi();
+
+        assert.equal(response.status, 401);
+        assert.equal(server.requestsTo('token').length, 1);
+    });
+});
+
+describe('tokens for other audiences', () => {
+    it('reports a refused token as unauthenticated, with the OAuth2 error code', async () => {
+        await login(oauth2Client, env);
+        server.failNext('token', { status: 400, body: { error: 'invalid_target' } });
+
+        const response = await apiClient.get('/api/v1/protected', { requiresAuth: true, audience: 'https://unknown.example.com' });
+
+        assert.equal(response.ok, false);
+        assert.equal(response.status, 401);
+        assert.equal(!response.ok && response.error.kind, 'unauthenticated');
+        assert.equal(!response.ok && response.error.code, 'invalid_target');
+        assert.equal(server.requestsTo('protected').length, 0);
+        assert.ok(oauth2Client.isAuthenticated());
+    });
+});
+
+describe('step-up', () => {
+    it('asks for the missing scope and retries the request', async () => {
+        await login(oauth2Client, env);
+
+        const response = await apiClient.callAdminApi<{ message: string }>();
+
+        assert.ok(response.ok);
+        assert.equal(response.data.message, 'Admin data');
+        assert.equal(stepUpChallenges.length, 1);
+        assert.equal(stepUpChallenges[0]!.error, 'insufficient_scope');
+        assert.equal(stepUpChallenges[0]!.scope, 'admin');
+        assert.ok(oauth2Client.hasScope('admin'));
+    });
+
+    it('asks the user for a scope the request needs instead of widening the grant with a refresh', async () => {
+        await login(oauth2Client, env);
+
+        const response = await apiClient.get<{ message: string }>('/api/v1/admin', { requiresAuth: true, scope: 'admin' });
+
+        assert.ok(response.ok);
+        assert.equal(response.data.message, 'Admin data');
+        assert.equal(stepUpChallenges.length, 1);
+        const refreshes = server.requestsTo('token').filter(request => request.params.get('grant_type') === 'refresh_token');
+        assert.deepEqual(refreshes, []);
+    });
+});
@@ -0,0 +1,173 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { installBrowserEnv } from './support/browser-env.js';
+import { createClient, disposeClients, login, nextEvent } from './support/session.js';
+import { MockAuthServer } from './mock-server/mock-server.js';
+import { AuthEventType } from '../src/oauth2-client.js';
+import { TypedEventEmitter } from '../src/event-emitter.js';
+
+const env = installBrowserEnv();
+const server = new MockAuthServer();
+
+before(() => server.start());
+after(() => server.stop());
+
+afterEach(async () => {
+    await disposeClients();
+    server.reset();
+    env.reset();
+});
+
+/**
+ * Whether an expiry time is about the mock server's 300 second access token lifetime from now
+ */
+function expiresInAboutFiveMinutes(expiresAt: number | null): boolean {
+    return expiresAt !== null && Math.abs(expiresAt - (Date.now() + 300 * 1000)) < 5000;
+}
+
+// A token response without refresh token, for a short session that can't be renewed
+const UNRENEWABLE_TOKENS = { status: 200, body: { access_token: 'opaque-token', token_type: 'Bearer', expires_in: 1 } };
+
+describe('auth events', () => {
+    it('emits login, then logout', async () => {
+        const client = createClient(server);
+        const events: AuthEventType[] = [];
+        client.on('login', () => events.push('login'));
+        client.on('logout', () => events.push('logout'));
+
+        await login(client, env);
+        await client.logout({ localOnly: true });
+
+        assert.deepEqual(events, ['login', 'logout']);
+    });
+
+    it('emits tokenRefreshed with the new expiry', async () => {
+        const client = createClient(server);
+        await login(client, env);
+        const refreshed = nextEvent(client, 'tokenRefreshed');
+
+        await client.refreshAccessToken();
+
+        const event = await refreshed;
+        assert.equal(event.fromOtherTab, false);
+        assert.ok(expiresInAboutFiveMinutes(event.expiresAt));
+    });
+
+    it('emits refreshFailed, and logout when the refresh token was rejected', async () => {
+        const client = createClient(server);
+        await login(client, env);
+        server.failNext('token', { status: 503, body: { error: 'temporarily_unavailable' } });
+
+        const temporary = nextEvent(client, 'refreshFailed');
+        await assert.rejects(client.refreshAccessToken());
+        assert.equal((await temporary).sessionEnded, false);
+
+        server.revokeRefreshTokens();
+        const rejected = nextEvent(client, 'refreshFailed');
+        const logout = nextEvent(client, 'logout');
+        await assert.rejects(client.refreshAccessToken());
+        assert.equal((await rejected).sessionEnded, true);
+        assert.deepEqual(await logout, { fromOtherTab: false });
+    });
+
+    it('emits callbackError for a callback that fails', async () => {
+        const client = createClient(server);
+        const callbackError = nextEvent(client, 'callbackError');
+
+        await assert.rejects(client.handleCallback('http://localhost:4040/callback?code=abc&state=unknown'));
+
+        assert.equal(((await callbackError).error as { code: string }).code, 'state_mismatch');
+    });
+
+    it('emits userLoaded when the profile is fetched, not when it comes from the cache', async () => {
+        const client = createClient(server);
+        await login(client, env);
+        const profiles: string[] = [];
+        client.on('userLoaded', ({ profile }) => profiles.push(profile.sub));
+
+        await client.getUserInfo();
+        await client.getUserInfo();
+
+        assert.deepEqual(profiles, [server.user.sub]);
+    });
+
+    it('emits tokenExpiring within the refresh leeway', async () => {
+        const client = createClient(server, { refreshLeewaySeconds: 600 });
+        const expiring = nextEvent(client, 'tokenExpiring');
+
+        await login(client, env);
+
+        const event = await expiring;
+        assert.equal(event.refreshable, true);
+        assert.ok(expiresInAboutFiveMinutes(event.expiresAt));
+    });
+
+    it('emits tokenExpired when a token that cannot be renewed expires', async () => {
+        const client = createClient(server, { scope: 'read' });
+        server.failNext('token', UNRENEWABLE_TOKENS);
+        const expired = nextEvent(client, 'tokenExpired');
+
+        await login(client, env);
+
+        assert.equal((await expired).refreshable, false);
+    });
+
+    it('emits tokenExpired for an expired stored token that cannot be renewed', async () => {
+        const client = createClient(server, { scope: 'read' });
+        server.failNext('token', UNRENEWABLE_TOKENS);
+        await login(client, env);
+        const key = [...Array(env.localStorage.length).keys()].map(i => env.localStorage.key(i)!).find(name => name.endsWith(':tokens'))!;
+        env.localStorage.setItem(key, JSON.stringify({ ...JSON.parse(env.localStorage.getItem(key)!), expiresAt: Date.now() - 1000 }));
+
+        const reloaded = createClient(server, { scope: 'read' });
+        const expired = await nextEvent(reloaded, 'tokenExpired');
+
+        assert.equal(expired.refreshable, false);
+        assert.equal(reloaded.isAuthenticated(), false);
+    });
+
+    it('stops delivering events after off()', async () => {
+        const client = createClient(server);
+        let logins = 0;
+        const listener = () => logins++;
+        client.on('login', listener);
+        client.off('login', listener);
+
+        await login(client, env);
+
+        assert.equal(logins, 0);
+    });
+});
+
+describe('TypedEventEmitter', () => {
+    it('keeps calling listeners after one of them throws', () => {
+        const emitter = new TypedEventEmitter<{ ping: number }>();
+        const received: number[] = [];
+        const originalError = console.error;
+        console.error = () => {};
+
+        try {
+            emitter.on('ping', () => {
+                throw new Error('broken widget');
+            });
+            emitter.on('ping', value => received.push(value));
+            emitter.emit('ping', 1);
+        } finally {
+            console.error = originalError;
+        }
+
+        assert.deepEqual(received, [1]);
+    });
+
+    it('unsubscribes with the function returned by on()', () => {
+        const emitter = new TypedEventEmitter<{ ping: number }>();
+        const received: number[] = [];
+        const unsubscribe = emitter.on('ping', value => received.push(value));
+
+        emitter.emit('ping', 1);
+        unsubscribe();
+        emitter.emit('ping', 2);
+
+        assert.deepEqual(received, [1]);
+    });
+});
@@ -0,0 +1,131 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { installBrowserEnv } from './support/browser-env.js';
+import { createClient, disposeClients } from './support/session.js';
+import { MockAuthServer } from './mock-server/mock-server.js';
+import { TokenRequestError } from '../src/oauth2-errors.js';
+
+const env = installBrowserEnv();
+// Poll every 10 ms, so the tests don't take seconds
+const POLL_INTERVAL_S = 0.01;
+const server = new MockAuthServer({ deviceIntervalSeconds: POLL_INTERVAL_S });
+
+before(() => server.start());
+after(() => server.stop());
+
+afterEach(async () => {
+    await disposeClients();
+    server.reset();
+    env.reset();
+});
+
+describe('device authorization grant', () => {
+    it('returns the user code, verification URIs and a URL for a QR code', async () => {
+        const client = createClient(server);
+
+        const authorization = await client.startDeviceAuthorization({ scope: 'openid read' });
+
+        assert.match(authorization.userCode, /^[A-Z]{4}-[A-Z]{4}$/);
+        assert.equal(authorization.verificationUri, `${server.baseUrl}/api/v1/oauth2/device`);
+        assert.equal(authorization.verificationUriComplete, `${authorization.verificationUri}?user_code=${authorization.userCode}`);
+        assert.equal(authorization.qrCodeUrl, authorization.verificationUriComplete);
+        assert.ok(authorization.expiresAt > Date.now());
+        assert.equal(server.requestsTo('device')[0]!.params.get('scope'), 'openid read');
+    });
+
+    it('polls until the user approves on another device, then signs in', async () => {
+        const client = createClient(server);
+        const authorization = await client.startDeviceAuthorization();
+
+        const polling = client.pollDeviceAuthorization(authorization);
+        setTimeout(() => fetch(authorization.qrCodeUrl), 20);
+        await polling;
+
+        assert.ok(client.isAuthenticated());
+        assert.equal((await client.getIdToken())?.sub, server.user.sub);
+        const polls = server.requestsTo('token');
+        assert.ok(polls.length > 1);
+        assert.ok(polls.every(request => request.params.get('grant_type') === 'urn:ietf:params:oauth:grant-type:device_code'));
+    });
+
+    it('waits longer after slow_down', async () => {
+        const client = createClient(server);
+        const authorization = await client.startDeviceAuthorization();
+        server.failNext('token', { status: 400, body: { error: 'slow_down' } });
+        const controller = new AbortController();
+
+        const polling = client.pollDeviceAuthorization(authorization, { signal: controller.signal });
+        setTimeout(() => controller.abort(), 50);
+
+        await assert.rejects(polling, { name: 'AbortError' });
+        assert.equal(authorization.interval, POLL_INTERVAL_S + 5);
+        assert.equal(server.requestsTo('token').length, 1);
+    });
+
+    it('backs off and keeps polling when the token endpoint cannot be reached', async () => {
+        const client = createClient(server);
+        const authorization = await client.startDeviceAuthorization();
+        const controller = new AbortController();
+        const originalFetch = globalThis.fetch;
+        globalThis.fetch = () => Promise.reject(new TypeError('fetch failed'));
+
+        try {
+            const polling = client.pollDeviceAuthorization(authorization, { signal: controller.signal });
+            setTimeout(() => controller.abort(), 50);
+
+            await assert.rejects(polling, { name: 'AbortError' });
+        } finally {
+            globalThis.fetch = originalFetch;
+        }
+        assert.equal(authorization.interval, POLL_INTERVAL_S + 5);
+    });
+
+    it('polls every 5 seconds when the server asks for an interval of 0', async () => {
+        const client = createClient(server);
+        server.failNext('device', {
+            status: 200,
+            body: { device_code: 'device-code', user_code: 'ABCD-EFGH', verification_uri: `${server.baseUrl}/device`, expires_in: 600, interval: 0 }
+        });
+
+        const authorization = await client.startDeviceAuthorization();
+
+        assert.equal(authorization.interval, 5);
+    });
+
+    it('fails when the user denies access', async () => {
+        const client = createClient(server);
+        const authorization = await client.startDeviceAuthorization();
+        server.rejectNextAuthorization('access_denied');
+        await fetch(authorization.qrCodeUrl);
+
+        await assert.rejects(client.pollDeviceAuthorization(authorization), (error: unknown) => {
+            assert.ok(error instanceof TokenRequestError);
+            assert.equal(error.code, 'access_denied');
+            return true;
+        });
+        assert.equal(client.isAuthenticated(), false);
+    });
+
+    it('fails when the server reports the code as expired', async () => {
+        const client = createClient(server);
+        const authorization = await client.startDeviceAuthorization();
+        server.failNext('token', { status: 400, body: { error: 'expired_token' } });
+
+        await assert.rejects(client.pollDeviceAuthorization(authorization), { code: 'expired_token' });
+    });
+
+    it('stops polling once the code has expired', async () => {
+        const client = createClient(server);
+        const authorization = await client.startDeviceAuthorization();
+        authorization.expiresAt = Date.now() - 1;
+
+        await assert.rejects(client.pollDeviceAuthorization(authorization), { code: 'expired_token' });
+        assert.equal(server.requestsTo('token').length, 0);
+    });
+
+    it('reports a client that may not use the grant', async () => {
+        const client = createClient(server, { clientId: 'unknown-client' });
+
+        await assert.rejects(client.startDeviceAuthorization(), { code: 'invalid_client', status: 401 });
+    });
+});
@@ -0,0 +1,723 @@
+import { IncomingHttpHeaders, IncomingMessage, Server, ServerResponse, createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { createHash, randomBytes } from 'node:crypto';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+/**
+ * The user every authorization request is approved for
+ */
+export interface MockUser {
+    sub: string;
+    name: string;
+    email: string;
+    roles: string[];
+}
+
+export interface MockServerOptions {
+    // 0 picks a free port
+    port?: number;
+    clientId?: string;
+    redirectUris?: string[];
+    accessTokenTtlSeconds?: number;
+    // Polling interval and lifetime of device codes
+    deviceIntervalSeconds?: number;
+    deviceCodeTtlSeconds?: number;
+    // Only accept pushed authorization requests, advertised in the discovery document
+    requirePar?: boolean;
+    user?: MockUser;
+}
+
+export type MockRoute = 'discovery' | 'par' | 'authorize' | 'device' | 'verify' | 'token' | 'userinfo' | 'revoke' | 'jwks' | 'public' | 'protected' | 'admin';
+
+/**
+ * A canned response, sent instead of the real one by failNext()
+ */
+export interface MockResponse {
+    status: number;
+    body?: unknown;
+    headers?: Record<string, string>;
+    // Answer only after this long, for testing timeouts and aborts
+    delayMs?: number;
+}
+
+export interface RecordedRequest {
+    route: MockRoute | null;
+    method: string;
+    path: string;
+    headers: IncomingHttpHeaders;
+    // Query parameters, or the form body of a POST
+    params: URLSearchParams;
+}
+
+interface AuthorizationCode {
+    clientId: string;
+    redirectUri: string;
+    codeChallenge: string;
+    scope: string;
+    nonce: string | null;
+    expiresAt: number;
+}
+
+interface PushedRequest {
+    params: URLSearchParams;
+    expiresAt: number;
+}
+
+interface DeviceCode {
+    userCode: string;
+    scope: string;
+    expiresAt: number;
+    status: 'pending' | 'approved' | 'denied';
+}
+
+interface IssuedToken {
+    sub: string;
+    scope: string;
+    expiresAt: number;
+}
+
+interface Grant {
+    sub: string;
+    scope: string;
+}
+
+const ROUTES: Record<string, MockRoute> = {
+    '/.well-known/openid-configuration': 'discovery',
+    '/api/v1/oauth2/par': 'par',
+    '/api/v1/oauth2/authorize': 'authorize',
+    '/api/v1/oauth2/device_authorization': 'device',
+    // Where the user enters the code of a device authorization
+    '/api/v1/oauth2/device': 'verify',
+    '/api/v1/oauth2/token': 'token',
+    '/api/v1/oauth2/userinfo': 'userinfo',
+    '/api/v1/oauth2/revoke': 'revoke',
+    '/api/v1/oauth2/jwks': 'jwks',
+    '/api/v1/public': 'public',
+    '/api/v1/protected': 'protected',
+    '/api/v1/admin': 'admin'
+};
+
+const KEY_ID = 'mock-signing-key';
+const CODE_TTL_MS = 60 * 1000;
+const REQUEST_URI_TTL_S = 60;
+// User codes avoid vowels and look-alike characters (RFC 8628, section 6.1)
+const USER_CODE_CHARACTERS = 'BCDFGHJKLMNPQRSTVWXZ';
+
+/**
+ * Local stand-in for the backend: an authorization server (authorize, token, userinfo,
+ * revocation, JWKS) and the demo resource server, in one process.
+ * Every authorization request is approved for the configured user without a login page.
+ * Device authorizations are approved by opening their verification URI. Authorization requests
+ * may be pushed (PAR) and carry a request object (JAR), whose signature isn't checked.
+ * PKCE with S256 is required, codes are single use and refresh tokens rotate.
+ * Tests script failures with failNext(), rejectNextAuthorization() and expireAccessTokens().
+ */
+export class MockAuthServer {
+    readonly clientId: string;
+    readonly user: MockUser;
+    // Every request received, oldest first
+    readonly requests: RecordedRequest[] = [];
+
+    private port: number;
+    private redirectUris: string[];
+    private accessTokenTtlSeconds: number;
+    private deviceIntervalSeconds: number;
+    private deviceCodeTtlSeconds: number;
+    private requirePar: boolean;
+    private server: Server | null = null;
+    private url: string | null = null;
+    private keyPair: CryptoKeyPair | null = null;
+    private publicJwk: JsonWebKey | null = null;
+    private codes = new Map<string, AuthorizationCode>();
+    private pushedRequests = new Map<string, PushedRequest>();
+    private deviceCodes = new Map<string, DeviceCode>();
+    private accessTokens = new Map<string, IssuedToken>();
+    private refreshTokens = new Map<string, Grant>();
+    private failures = new Map<MockRoute, MockResponse[]>();
+    private authorizationErrors: { error: string; description?: string }[] = [];
+
+    constructor(options: MockServerOptions = {}) {
+        this.port = options.port ?? 0;
+        this.clientId = options.clientId || 'demo-client-id';
+        this.redirectUris = options.redirectUris || ['http://localhost:4040/callback'];
+        this.accessTokenTtlSeconds = options.accessTokenTtlSeconds ?? 300;
+        this.deviceIntervalSeconds = options.deviceIntervalSeconds ?? 5;
+        this.deviceCodeTtlSeconds = options.deviceCodeTtlSeconds ?? 600;
+        this.requirePar = options.requirePar ?? false;
+        this.user = options.user || {
+            sub: 'user-1',
+            name: 'Test User',
+            email: 'test.user@example.com',
+            roles: ['user']
+        };
+    }
+
+    /**
+     * Base URL of the running server, also used as the issuer
+     */
+    get baseUrl(): string {
+        if (!this.url) {
+            throw new Error('Mock server is not running');
+        }
+        return this.url;
+    }
+
+    /**
+     * Generate the signing key and start listening; resolves to the base URL
+     */
+    async start(): Promise<string> {
+        this.keyPair = await crypto.subtle.generateKey({
+            name: 'RSASSA-PKCS1-v1_5',
+            modulusLength: 2048,
+            publicExponent: new Uint8Array([1, 0, 1]),
+            hash: 'SHA-256'
+        }, true, ['sign', 'verify']);
+        const { kty, n, e } = await crypto.subtle.exportKey('jwk', this.keyPair.publicKey);
+        this.publicJwk = { kty, n, e, alg: 'RS256', use: 'sig', kid: KEY_ID } as JsonWebKey;
+
+        const server = createServer((request, response) => {
+            this.handle(request, response).catch(error => {
+                this.send(response, { status: 500, body: { error: 'server_error', error_description: String(error) } });
+            });
+        });
+        this.server = server;
+
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(this.port, () => resolve());
+        });
+
+        this.url = `http://localhost:${(server.address() as AddressInfo).port}`;
+        return this.url;
+    }
+
+    /**
+     * Stop listening, closing kept-alive connections so the process can exit
+     */
+    async stop(): Promise<void> {
+        const server = this.server;
+        if (!server) return;
+
+        this.server = null;
+        this.url = null;
+        server.closeAllConnections();
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+
+    /**
+     * Answer the next requests to a route with a canned response
+     */
+    failNext(route: MockRoute, response: MockResponse, times: number = 1): void {
+        const queue = this.failures.get(route) || [];
+        for (let i = 0; i < times; i++) {
+            queue.push(response);
+        }
+        this.failures.set(route, queue);
+    }
+
+    /**
+     * Redirect the next authorization request back with an error (RFC 6749, section 4.1.2.1),
+     * or deny the next device authorization with it
+     */
+    rejectNextAuthorization(error: string, description?: string): void {
+        this.authorizationErrors.push({ error, description });
+    }
+
+    /**
+     * Treat all access tokens issued so far as expired, while the client still thinks they're valid
+     */
+    expireAccessTokens(): void {
+        this.accessTokens.forEach(token => {
+            token.expiresAt = 0;
+        });
+    }
+
+    /**
+     * Forget all refresh tokens, as if the user's sessions were revoked
+     */
+    revokeRefreshTokens(): void {
+        this.refreshTokens.clear();
+    }
+
+    /**
+     * Requests received for one route
+     */
+    requestsTo(route: MockRoute): RecordedRequest[] {
+        return this.requests.filter(request => request.route === route);
+    }
+
+    /**
+     * Forget issued codes and tokens, scripted failures and recorded requests
+     */
+    reset(): void {
+        this.codes.clear();
+        this.pushedRequests.clear();
+        this.deviceCodes.clear();
+        this.accessTokens.clear();
+        this.refreshTokens.clear();
+        this.failures.clear();
+        this.authorizationErrors = [];
+        this.requests.length = 0;
+    }
+
+    private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+        const url = new URL(request.url || '/', this.baseUrl);
+        const route = ROUTES[url.pathname] ?? null;
+
+        // The demo app runs on another origin
+        response.setHeader('Access-Control-Allow-Origin', request.headers.origin || '*');
+        response.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, DPoP');
+        response.setHeader('Access-Control-Expose-Headers', 'WWW-Authenticate, Retry-After, DPoP-Nonce');
+        if (request.method === 'OPTIONS') {
+            this.send(response, { status: 204 });
+            return;
+        }
+
+        const params = request.method === 'POST' ? new URLSearchParams(await readBody(request)) : url.searchParams;
+        this.requests.push({ route, method: request.method || 'GET', path: url.pathname, headers: request.headers, params });
+
+        if (!route) {
+            this.send(response, { status: 404, body: { error: 'not_found' } });
+            return;
+        }
+
+        const failure = this.failures.get(route)?.shift();
+        if (failure) {
+            if (failure.delayMs) {
+                await sleep(failure.delayMs);
+            }
+            this.send(response, failure);
+            return;
+        }
+
+        switch (route) {
+            case 'discovery':
+                this.send(response, this.discovery());
+                return;
+            case 'par':
+                this.send(response, this.pushAuthorizationRequest(params));
+                return;
+            case 'authorize':
+                this.send(response, this.authorize(params));
+                return;
+            case 'device':
+                this.send(response, this.deviceAuthorization(params));
+                return;
+            case 'verify':
+                this.send(response, this.verifyDevice(params));
+                return;
+            case 'token':
+                this.send(response, await this.token(params));
+                return;
+            case 'revoke':
+                this.revoke(params);
+                this.send(response, { status: 200 });
+                return;
+            case 'jwks':
+                this.send(response, { status: 200, body: { keys: [this.publicJwk] } });
+                return;
+            case 'public':
+                this.send(response, { status: 200, body: { message: 'Public data' } });
+                return;
+            default:
+                this.send(response, this.resource(route, request.headers.authorization));
+        }
+    }
+
+    /**
+     * OpenID Connect discovery document
+     */
+    private discovery(): MockResponse {
+        const endpoint = (path: string) => `${this.baseUrl}/api/v1/oauth2/${path}`;
+
+        return {
+            status: 200,
+            body: {
+                issuer: this.baseUrl,
+                authorization_endpoint: endpoint('authorize'),
+                token_endpoint: endpoint('token'),
+                device_authorization_endpoint: endpoint('device_authorization'),
+                pushed_authorization_request_endpoint: endpoint('par'),
+                require_pushed_authorization_requests: this.requirePar,
+                userinfo_endpoint: endpoint('userinfo'),
+                revocation_endpoint: endpoint('revoke'),
+                jwks_uri: endpoint('jwks'),
+                response_types_supported: ['code'],
+                grant_types_supported: ['authorization_code', 'refresh_token', 'urn:ietf:params:oauth:grant-type:device_code'],
+                code_challenge_methods_supported: ['S256'],
+                id_token_signing_alg_values_supported: ['RS256']
+            }
+        };
+    }
+
+    /**
+     * Pushed authorization request endpoint (RFC 9126, section 2)
+     */
+    private pushAuthorizationRequest(body: URLSearchParams): MockResponse {
+        const params = readRequestObject(body);
+
+        if (params.get('client_id') !== this.clientId || !this.redirectUris.includes(params.get('redirect_uri') || '')) {
+            return oauthError(400, 'invalid_request', 'Unknown client_id or redirect_uri');
+        }
+        if (params.has('request_uri')) {
+            return oauthError(400, 'invalid_request', 'request_uri is not allowed in a pushed request');
+        }
+
+        const requestUri = `urn:ietf:params:oauth:request_uri:${randomToken()}`;
+        this.pushedRequests.set(requestUri, { params, expiresAt: Date.now() + REQUEST_URI_TTL_S * 1000 });
+
+        return { status: 201, body: { request_uri: requestUri, expires_in: REQUEST_URI_TTL_S }, headers: { 'Cache-Control': 'no-store' } };
+    }
+
+    /**
+     * Authorization endpoint: approve the request and redirect back with a code
+     */
+    private authorize(query: URLSearchParams): MockResponse {
+        // A pushed request replaces the parameters of the URL (RFC 9126, section 4)
+        const requestUri = query.get('request_uri');
+        let params: URLSearchParams;
+        if (requestUri) {
+            const pushed = this.pushedRequests.get(requestUri);
+            // request_uri values are single use
+            this.pushedRequests.delete(requestUri);
+            if (!pushed || pushed.expiresAt < Date.now() || pushed.params.get('client_id') !== query.get('client_id')) {
+                return oauthError(400, 'invalid_request_uri', 'Unknown or expired request_uri');
+            }
+            params = pushed.params;
+        } else if (this.requirePar) {
+            return oauthError(400, 'invalid_request', 'Pushed authorization requests are required');
+        } else {
+            params = readRequestObject(query);
+        }
+
+        const redirectUri = params.get('redirect_uri') || '';
+
+        // Never redirect to a URI that isn't registered (RFC 6749, section 4.1.2.1)
+        if (params.get('client_id') !== this.clientId || !this.redirectUris.includes(redirectUri)) {
+            return oauthError(400, 'invalid_request', 'Unknown client_id or redirect_uri');
+        }
+
+        const redirect = (result: Record<string, string>) => {
+            const location = new URL(redirectUri);
+            Object.entries(result).forEach(([name, value]) => location.searchParams.set(name, value));
+            const state = params.get('state');
+            if (state) location.searchParams.set('state', state);
+            return { status: 302, headers: { Location: location.href } };
+        };
+
+        const scripted = this.authorizationErrors.shift();
+        if (scripted) {
+            return redirect({ error: scripted.error, ...(scripted.description && { error_description: scripted.description }) });
+        }
+
+        if (params.get('response_type') !== 'code') {
+            return redirect({ error: 'unsupported_response_type' });
+        }
+
+        const codeChallenge = params.get('code_challenge');
+        if (!codeChallenge || params.get('code_challenge_method') !== 'S256') {
+            return redirect({ error: 'invalid_request', error_description: 'PKCE with S256 is required' });
+        }
+
+        const code = randomToken();
+        this.codes.set(code, {
+            clientId: this.clientId,
+            redirectUri,
+            codeChallenge,
+            scope: params.get('scope') || 'read',
+            nonce: params.get('nonce'),
+            expiresAt: Date.now() + CODE_TTL_MS
+        });
+
+        return redirect({ code });
+    }
+
+    /**
+     * Device authorization endpoint (RFC 8628, section 3.2)
+     */
+    private deviceAuthorization(params: URLSearchParams): MockResponse {
+        if (params.get('client_id') !== this.clientId) {
+            return oauthError(401, 'invalid_client', 'Unknown client');
+        }
+
+        const bytes = randomBytes(8);
+        const userCode = Array.from(bytes, (byte, i) => (i === 4 ? '-' : '') + USER_CODE_CHARACTERS[byte % USER_CODE_CHARACTERS.length]).join('');
+        const deviceCode = randomToken();
+        this.deviceCodes.set(deviceCode, {
+            userCode,
+            scope: params.get('scope') || 'read',
+            expiresAt: Date.now() + this.deviceCodeTtlSeconds * 1000,
+            status: 'pending'
+        });
+
+        const verificationUri = `${this.baseUrl}/api/v1/oauth2/device`;
+        return {
+            status: 200,
+            body: {
+                device_code: deviceCode,
+                user_code: userCode,
+                verification_uri: verificationUri,
+                verification_uri_complete: `${verificationUri}?user_code=${encodeURIComponent(userCode)}`,
+                expires_in: this.deviceCodeTtlSeconds,
+                interval: this.deviceIntervalSeconds
+            },
+            headers: { 'Cache-Control': 'no-store' }
+        };
+    }
+
+    /**
+     * Verification page: the user opened it with their code, approve (or deny) the device
+     */
+    private verifyDevice(params: URLSearchParams): MockResponse {
+        const entry = [...this.deviceCodes.values()].find(device => device.userCode === params.get('user_code'));
+        if (!entry || entry.expiresAt < Date.now()) {
+            return { status: 400, body: 'Unknown or expired code' };
+        }
+
+        if (this.authorizationErrors.shift()) {
+            entry.status = 'denied';
+            return { status: 200, body: 'Access denied' };
+        }
+
+        entry.status = 'approved';
+        return { status: 200, body: 'Device approved, you can return to your device' };
+    }
+
+    /**
+     * Token endpoint: authorization_code, refresh_token and device_code grants
+     */
+    private async token(params: URLSearchParams): Promise<MockResponse> {
+        if (params.get('client_id') !== this.clientId) {
+            return oauthError(401, 'invalid_client', 'Unknown client');
+        }
+
+        switch (params.get('grant_type')) {
+            case 'authorization_code': {
+                const code = this.codes.get(params.get('code') || '');
+                // Codes are single use
+                this.codes.delete(params.get('code') || '');
+
+                if (!code || code.expiresAt < Date.now()) {
+                    return oauthError(400, 'invalid_grant', 'Unknown or expired authorization code');
+                }
+                if (code.redirectUri !== params.get('redirect_uri')) {
+                    return oauthError(400, 'invalid_grant', 'redirect_uri does not match the authorization request');
+                }
+                if (sha256Base64Url(params.get('code_verifier') || '') !== code.codeChallenge) {
+                    return oauthError(400, 'invalid_grant', 'PKCE verification failed');
+                }
+
+                return this.issueTokens({ sub: this.user.sub, scope: code.scope }, code.scope, code.nonce);
+            }
+
+            case 'refresh_token': {
+                const grant = this.refreshTokens.get(params.get('refresh_token') || '');
+                if (!grant) {
+                    return oauthError(400, 'invalid_grant', 'Unknown or revoked refresh token');
+                }
+                // Rotation: the refresh token can't be used again
+                this.refreshTokens.delete(params.get('refresh_token')!);
+
+                // A refresh may narrow the scope, never widen it (RFC 6749, section 6)
+                const scope = params.get('scope') || grant.scope;
+                const granted = grant.scope.split(' ');
+                if (!scope.split(' ').every(item => granted.includes(item))) {
+                    return oauthError(400, 'invalid_scope', 'Scope exceeds the original grant');
+                }
+
+                return this.issueTokens(grant, scope, null);
+            }
+
+            case 'urn:ietf:params:oauth:grant-type:device_code': {
+                const deviceCode = params.get('device_code') || '';
+                const device = this.deviceCodes.get(deviceCode);
+                if (!device) {
+                    return oauthError(400, 'invalid_grant', 'Unknown device code');
+                }
+
+                if (device.expiresAt < Date.now()) {
+                    this.deviceCodes.delete(deviceCode);
+                    return oauthError(400, 'expired_token', 'The device code has expired');
+                }
+                if (device.status === 'denied') {
+                    this.deviceCodes.delete(deviceCode);
+                    return oauthError(400, 'access_denied', 'The user denied the authorization');
+                }
+                if (device.status === 'pending') {
+                    return oauthError(400, 'authorization_pending', 'The user has not approved the device yet');
+                }
+
+                this.deviceCodes.delete(deviceCode);
+                return this.issueTokens({ sub: this.user.sub, scope: device.scope }, device.scope, null);
+            }
+
+            default:
+                return oauthError(400, 'unsupported_grant_type', `Unsupported grant_type "${params.get('grant_type')}"`);
+        }
+    }
+
+    /**
+     * Build a token response; the ID token is only issued for the openid scope
+     */
+    private async issueTokens(grant: Grant, scope: string, nonce: string | null): Promise<MockResponse> {
+        const now = Math.floor(Date.now() / 1000);
+        const exp = now + this.accessTokenTtlSeconds;
+
+        const accessToken = await this.sign({
+            iss: this.baseUrl,
+            sub: grant.sub,
+            aud: this.baseUrl,
+            client_id: this.clientId,
+            scope,
+            roles: this.user.roles,
+            iat: now,
+            exp,
+            jti: randomToken()
+        });
+        this.accessTokens.set(accessToken, { sub: grant.sub, scope, expiresAt: exp * 1000 });
+
+        const refreshToken = randomToken();
+        this.refreshTokens.set(refreshToken, grant);
+
+        const body: Record<string, unknown> = {
+            access_token: accessToken,
+            token_type: 'Bearer',
+            expires_in: this.accessTokenTtlSeconds,
+            refresh_token: refreshToken,
+            scope
+        };
+
+        if (scope.split(' ').includes('openid')) {
+            body.id_token = await this.sign({
+                iss: this.baseUrl,
+                sub: grant.sub,
+                aud: this.clientId,
+                iat: now,
+                exp: now + 3600,
+                auth_time: now,
+                ...(nonce && { nonce }),
+                name: this.user.name,
+                email: this.user.email
+            });
+        }
+
+        return { status: 200, body, headers: { 'Cache-Control': 'no-store' } };
+    }
+
+    /**
+     * Revocation endpoint (RFC 7009); unknown tokens are not an error
+     */
+    private revoke(params: URLSearchParams): void {
+        const token = params.get('token') || '';
+        this.accessTokens.delete(token);
+        this.refreshTokens.delete(token);
+    }
+
+    /**
+     * Routes that need a Bearer token: userinfo, protected and admin (which needs the admin scope)
+     */
+    private resource(route: MockRoute, authorization: string | undefined): MockResponse {
+        const match = /^Bearer\s+(\S+)$/i.exec(authorization || '');
+        if (!match) {
+            return { status: 401, body: { error: 'unauthorized' }, headers: { 'WWW-Authenticate': 'Bearer realm="mock"' } };
+        }
+
+        const token = this.accessTokens.get(match[1]!);
+        if (!token || token.expiresAt <= Date.now()) {
+            return {
+                status: 401,
+                body: { error: 'invalid_token' },
+                headers: { 'WWW-Authenticate': 'Bearer realm="mock", error="invalid_token", error_description="The access token expired or is unknown"' }
+            };
+        }
+
+        if (route === 'userinfo') {
+            return { status: 200, body: { ...this.user, sub: token.sub } };
+        }
+
+        if (route === 'admin' && !token.scope.split(' ').includes('admin')) {
+            return {
+                status: 403,
+                body: { error: 'insufficient_scope' },
+                headers: { 'WWW-Authenticate': 'Bearer realm="mock", error="insufficient_scope", scope="admin"' }
+            };
+        }
+
+        return {
+            status: 200,
+            body: { message: route === 'admin' ? 'Admin data' : 'Protected data', user: token.sub, scope: token.scope }
+        };
+    }
+
+    /**
+     * Sign a JWT with RS256
+     */
+    private async sign(payload: Record<string, unknown>): Promise<string> {
+        const header = { alg: 'RS256', typ: 'JWT', kid: KEY_ID };
+        const signingInput = `${base64Url(JSON.stringify(header))}.${base64Url(JSON.stringify(payload))}`;
+        const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', this.keyPair!.privateKey, new TextEncoder().encode(signingInput));
+
+        return `${signingInput}.${base64Url(new Uint8Array(signature))}`;
+    }
+
+    private send(response: ServerResponse, { status, body, headers = {} }: MockResponse): void {
+        Object.entries(headers).forEach(([name, value]) => response.setHeader(name, value));
+
+        if (body === undefined) {
+            response.writeHead(status).end();
+        } else if (typeof body === 'string') {
+            response.writeHead(status, { 'Content-Type': response.getHeader('Content-Type') || 'text/plain' }).end(body);
+        } else {
+            response.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+        }
+    }
+}
+
+/**
+ * OAuth2 error response (RFC 6749, section 5.2)
+ */
+function oauthError(status: number, error: string, description: string): MockResponse {
+    return { status, body: { error, error_description: description }, headers: { 'Cache-Control': 'no-store' } };
+}
+
+/**
+ * Merge the claims of a request object (RFC 9101) into the parameters.
+ * The mock knows no client keys, so the signature isn't checked.
+ */
+function readRequestObject(params: URLSearchParams): URLSearchParams {
+    const request = params.get('request');
+    if (!request) return params;
+
+    const claims: Record<string, unknown> = JSON.parse(Buffer.from(request.split('.')[1] || '', 'base64url').toString());
+    const merged = new URLSearchParams(params);
+    merged.delete('request');
+    Object.entries(claims)
+        .filter(([name]) => name !== 'iss' && name !== 'aud')
+        .forEach(([name, value]) => merged.set(name, String(value)));
+
+    return merged;
+}
+
+function readBody(request: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let body = '';
+        request.setEncoding('utf8');
+        request.on('data', chunk => {
+            body += chunk;
+        });
+        request.on('end', () => resolve(body));
+        request.on('error', reject);
+    });
+}
+
+function randomToken(): string {
+    return randomBytes(24).toString('base64url');
+}
+
+function base64Url(value: string | Uint8Array): string {
+    return Buffer.from(value).toString('base64url');
+}
+
+function sha256Base64Url(value: string): string {
+    return createHash('sha256').update(value).digest('base64url');
+}
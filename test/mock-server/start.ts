@@ -0,0 +1,19 @@
+import { MockAuthServer } from './mock-server.js';
+
+/**
+ * Run the mock server on its own, in place of the backend at localhost:8080.
+ * PORT and CLIENT_ID override the defaults of config.json's "demo" provider.
+ */
+const server = new MockAuthServer({
+    port: Number(process.env.PORT || 8080),
+    clientId: process.env.CLIENT_ID || 'demo-client-id',
+    redirectUris: ['http://localhost:4040/callback']
+});
+
+server.start().then(baseUrl => {
+    console.log(`Mock authorization and resource server listening on ${baseUrl}`);
+    console.log(`Every login is approved as "${server.user.sub}"; press Ctrl+C to stop`);
+}).catch(error => {
+    console.error('Failed to start the mock server:', error);
+    process.exit(1);
+});
@@ -0,0 +1,338 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { installBrowserEnv } from './support/browser-env.js';
+import { clientConfig, createClient, disposeClients, followAuthorization, login, nextSessionChange } from './support/session.js';
+import { MockAuthServer } from './mock-server/mock-server.js';
+import { ProviderRegistry } from '../src/provider-registry.js';
+import { AuthorizationError, OAuth2ClientError, TokenRequestError } from '../src/oauth2-errors.js';
+
+const env = installBrowserEnv();
+const server = new MockAuthServer();
+
+before(() => server.start());
+after(() => server.stop());
+
+afterEach(async () => {
+    await disposeClients();
+    server.reset();
+    env.reset();
+});
+
+describe('authorization code flow with PKCE', () => {
+    it('sends an S256 challenge of the verifier it later redeems the code with', async () => {
+        const client = createClient(server);
+        await login(client, env);
+
+        const authorization = new URL(env.lastNavigation()).searchParams;
+        const tokenRequest = server.requestsTo('token')[0]!.params;
+        const verifier = tokenRequest.get('code_verifier')!;
+
+        assert.equal(authorization.get('code_challenge_method'), 'S256');
+        assert.equal(authorization.get('code_challenge'), createHash('sha256').update(verifier).digest('base64url'));
+        assert.ok(verifier.length >= 43 && verifier.length <= 128);
+        assert.equal(tokenRequest.get('grant_type'), 'authorization_code');
+        assert.ok(client.isAuthenticated());
+        assert.deepEqual(client.getScopes(), ['openid', 'read', 'write']);
+    });
+
+    it('validates the ID token and exposes its claims', async () => {
+        const client = createClient(server);
+        await login(client, env);
+
+        const idToken = await client.getIdToken();
+        assert.equal(idToken?.sub, server.user.sub);
+        assert.equal(idToken?.nonce, new URL(env.lastNavigation()).searchParams.get('nonce'));
+    });
+
+    it('hands back returnTo and appState from the authorization request', async () => {
+        const client = createClient(server);
+        const result = await login(client, env, { returnTo: '/orders?page=2', appState: { tab: 'history' } });
+
+        assert.equal(result.returnTo, '/orders?page=2');
+        assert.deepEqual(result.appState, { tab: 'history' });
+    });
+
+    it('drops a returnTo on another origin', async () => {
+        const client = createClient(server);
+        const result = await login(client, env, { returnTo: 'https://evil.example/' });
+
+        assert.equal(result.returnTo, undefined);
+    });
+
+    it('fails when the code is redeemed with another verifier', async () => {
+        const client = createClient(server);
+        await client.authorize();
+
+        // Swap the stored verifier, as if the code had been intercepted by someone else
+        const key = [...Array(env.sessionStorage.length).keys()].map(i => env.sessionStorage.key(i)!).find(name => name.includes(':tx:'))!;
+        env.sessionStorage.setItem(key, JSON.stringify({ ...JSON.parse(env.sessionStorage.getItem(key)!), codeVerifier: 'x'.repeat(64) }));
+
+        await assert.rejects(client.handleCallback(await followAuthorization(env)), (error: unknown) => {
+            assert.ok(error instanceof TokenRequestError);
+            assert.equal(error.code, 'invalid_grant');
+            return true;
+        });
+        assert.equal(client.isAuthenticated(), false);
+    });
+
+    it('keeps the code verifier in sessionStorage only until the callback is handled', async () => {
+        const client = createClient(server);
+        await client.authorize();
+        const pendingKeys = (storage: Storage) => [...Array(storage.length).keys()].map(i => storage.key(i)!).filter(name => name.includes(':tx:'));
+
+        assert.equal(pendingKeys(env.sessionStorage).length, 1);
+        assert.equal(pendingKeys(env.localStorage).length, 0);
+
+        await client.handleCallback(await followAuthorization(env));
+
+        assert.equal(pendingKeys(env.sessionStorage).length, 0);
+    });
+});
+
+describe('state validation', () => {
+    it('rejects a callback whose state was not issued by the client', async () => {
+        const client = createClient(server);
+        await client.authorize();
+        const callback = new URL(await followAuthorization(env));
+        callback.searchParams.set('state', 'forged-state');
+
+        await assert.rejects(client.handleCallback(callback.href), (error: unknown) => {
+            assert.ok(error instanceof OAuth2ClientError);
+            assert.equal(error.code, 'state_mismatch');
+            assert.equal(error.state, 'forged-state');
+            return true;
+        });
+        assert.equal(server.requestsTo('token').length, 0);
+    });
+
+    it('rejects a callback without state', async () => {
+        const client = createClient(server);
+
+        await assert.rejects(client.handleCallback('http://localhost:4040/callback?code=abc'), { code: 'state_mismatch' });
+    });
+
+    it('accepts a callback only once', async () => {
+        const client = createClient(server);
+        await client.authorize();
+        const callback = await followAuthorization(env);
+
+        await client.handleCallback(callback);
+        await assert.rejects(client.handleCallback(callback), { code: 'state_mismatch' });
+    });
+
+    it('reports an error returned by the authorization server', async () => {
+        const client = createClient(server);
+        server.rejectNextAuthorization('access_denied', 'The user declined');
+        await client.authorize();
+        const state = new URL(env.lastNavigation()).searchParams.get('state');
+
+        await assert.rejects(client.handleCallback(await followAuthorization(env)), (error: unknown) => {
+            assert.ok(error instanceof AuthorizationError);
+            assert.equal(error.code, 'access_denied');
+            assert.equal(error.description, 'The user declined');
+            assert.equal(error.state, state);
+            return true;
+        });
+        assert.equal(client.hasPendingAuthorization(state!), false);
+    });
+});
+
+describe('token exchange errors', () => {
+    it('surfaces an OAuth2 error response with its status', async () => {
+        const client = createClient(server);
+        server.failNext('token', { status: 400, body: { error: 'invalid_grant', error_description: 'Code expired' } });
+
+        await assert.rejects(login(client, env), (error: unknown) => {
+            assert.ok(error instanceof TokenRequestError);
+            assert.equal(error.code, 'invalid_grant');
+            assert.equal(error.description, 'Code expired');
+            assert.equal(error.status, 400);
+            assert.equal(error.temporary, false);
+            return true;
+        });
+        assert.equal(client.isAuthenticated(), false);
+    });
+
+    it('turns a response that is not an OAuth2 error into invalid_response', async () => {
+        const client = createClient(server);
+        server.failNext('token', { status: 502, body: '<html>Bad Gateway</html>', headers: { 'Content-Type': 'text/html' } });
+
+        await assert.rejects(login(client, env), (error: unknown) => {
+            assert.ok(error instanceof TokenRequestError);
+            assert.equal(error.code, 'invalid_response');
+            assert.equal(error.temporary, true);
+            return true;
+        });
+    });
+
+    it('rejects a token response without token_type', async () => {
+        const client = createClient(server);
+        server.failNext('token', { status: 200, body: { access_token: 'opaque-token', expires_in: 300 } });
+
+        await assert.rejects(login(client, env), { name: 'OAuth2ClientError', code: 'invalid_response' });
+        assert.equal(client.isAuthenticated(), false);
+    });
+
+    it('rejects an ID token that fails validation', async () => {
+        const client = createClient(server, { issuer: 'https://other-issuer.example' });
+
+        await assert.rejects(login(client, env), { name: 'IdTokenValidationError', code: 'invalid_issuer' });
+        assert.equal(client.isAuthenticated(), false);
+    });
+});
+
+describe('token expiry', () => {
+    it('renews the access token before it expires', async () => {
+        const shortLived = new MockAuthServer({ accessTokenTtlSeconds: 1 });
+        await shortLived.start();
+
+        try {
+            const client = createClient(shortLived);
+            await login(client, env);
+            const firstToken = client.getAccessToken();
+
+            // Renewed after half of the one second lifetime
+            assert.equal(await nextSessionChange(client), 'refresh');
+            assert.notEqual(client.getAccessToken(), firstToken);
+            assert.equal(shortLived.requestsTo('token')[1]!.params.get('grant_type'), 'refresh_token');
+        } finally {
+            await disposeClients();
+            await shortLived.stop();
+        }
+    });
+
+    it('refreshes an expired stored token when the page loads again', async () => {
+        const client = createClient(server);
+        await login(client, env);
+        const firstToken = client.getAccessToken();
+
+        // Expire the stored token, then "reload" with a new client
+        const key = [...Array(env.localStorage.length).keys()].map(i => env.localStorage.key(i)!).find(name => name.endsWith(':tokens'))!;
+        env.localStorage.setItem(key, JSON.stringify({ ...JSON.parse(env.localStorage.getItem(key)!), expiresAt: Date.now() - 1000 }));
+        const reloaded = createClient(server);
+
+        const token = await reloaded.getValidAccessToken();
+        assert.ok(token);
+        assert.notEqual(token, firstToken);
+        assert.equal(server.requestsTo('token').length, 2);
+    });
+
+    it('shares one refresh between concurrent callers', async () => {
+        const client = createClient(server);
+        await login(client, env);
+
+        const tokens = await Promise.all([client.refreshAccessToken(), client.refreshAccessToken(), client.refreshAccessToken()]);
+
+        assert.equal(new Set(tokens).size, 1);
+        assert.equal(server.requestsTo('token').length, 2);
+    });
+
+    it('ends the session when the refresh token is rejected', async () => {
+        const client = createClient(server);
+        await login(client, env);
+        server.revokeRefreshTokens();
+        const sessionChange = nextSessionChange(client);
+
+        await assert.rejects(client.refreshAccessToken(), { code: 'invalid_grant' });
+        assert.equal(await sessionChange, 'logout');
+        assert.equal(client.isAuthenticated(), false);
+        assert.equal(await client.getValidAccessToken(), null);
+    });
+
+    it('keeps the session when the refresh fails for another reason than the refresh token', async () => {
+        const client = createClient(server);
+        await login(client, env);
+        server.failNext('token', { status: 400, body: { error: 'invalid_scope' } });
+
+        await assert.rejects(client.refreshAccessToken(), { code: 'invalid_scope', status: 400 });
+        assert.ok(client.isAuthenticated());
+        assert.ok(await client.refreshAccessToken());
+    });
+
+    it('keeps the session when the token endpoint is temporarily down', async () => {
+        const client = createClient(server);
+        await login(client, env);
+        server.failNext('token', { status: 503, body: { error: 'temporarily_unavailable' } });
+
+        await assert.rejects(client.refreshAccessToken(), { code: 'temporarily_unavailable', temporary: true });
+        assert.ok(client.isAuthenticated());
+        assert.ok(await client.refreshAccessToken());
+    });
+});
+
+describe('token storage', () => {
+    it('moves tokens from the plain localStorage keys of older versions into the store', async () => {
+        env.localStorage.setItem('access_token', 'legacy-access-token');
+        env.localStorage.setItem('refresh_token', 'legacy-refresh-token');
+        env.localStorage.setItem('token_expires_at', String(Date.now() + 60 * 1000));
+
+        const client = createClient(server);
+        await client.whenReady();
+
+        assert.equal(client.getAccessToken(), 'legacy-access-token');
+        assert.deepEqual(['access_token', 'refresh_token', 'id_token', 'token_expires_at'].map(key => env.localStorage.getItem(key)), [null, null, null, null]);
+        assert.ok([...Array(env.localStorage.length).keys()].some(i => env.localStorage.key(i)!.endsWith(':tokens')));
+    });
+
+    it('moves the tokens of older versions only into the default provider', async () => {
+        env.localStorage.setItem('access_token', 'legacy-access-token');
+        env.localStorage.setItem('token_expires_at', String(Date.now() + 60 * 1000));
+
+        const registry = new ProviderRegistry([
+            { id: 'demo', label: 'Demo', config: clientConfig(server) },
+            { id: 'keycloak', label: 'Keycloak', config: clientConfig(server) }
+        ]);
+        const [demo, keycloak] = ['demo', 'keycloak'].map(id => registry.getClient(id));
+        await Promise.all([demo!.whenReady(), keycloak!.whenReady()]);
+
+        assert.equal(demo!.getAccessToken(), 'legacy-access-token');
+        assert.equal(keycloak!.getAccessToken(), null);
+    });
+
+    it('keeps tokens in sessionStorage by default', async () => {
+        const client = createClient(server, { storage: undefined });
+        await login(client, env);
+
+        assert.equal(env.localStorage.length, 0);
+        assert.equal(env.sessionStorage.length, 1);
+    });
+});
+
+describe('tokens for other audiences', () => {
+    it('refreshes for the audience with only the scopes of the grant', async () => {
+        const client = createClient(server);
+        await login(client, env);
+
+        const token = await client.getValidAccessToken({ audience: 'https://reports.example.com', scope: 'read admin' });
+
+        assert.ok(token);
+        assert.notEqual(token, client.getAccessToken());
+        const refresh = server.requestsTo('token').find(request => request.params.get('grant_type') === 'refresh_token')!;
+        assert.equal(refresh.params.get('scope'), 'read');
+        assert.equal(refresh.params.get('resource'), 'https://reports.example.com');
+    });
+
+    it('passes a refused token request on to the caller', async () => {
+        const client = createClient(server);
+        await login(client, env);
+        server.failNext('token', { status: 400, body: { error: 'invalid_target' } });
+
+        await assert.rejects(client.getValidAccessToken({ audience: 'https://unknown.example.com' }), { code: 'invalid_target' });
+        assert.ok(client.isAuthenticated());
+    });
+});
+
+describe('logout', () => {
+    it('revokes the refresh token at the server', async () => {
+        const client = createClient(server);
+        await login(client, env);
+
+        await client.logout();
+
+        const revoked = server.requestsTo('revoke').map(request => request.params.get('token_type_hint'));
+        assert.deepEqual(revoked, ['refresh_token', 'access_token']);
+        assert.equal(client.isAuthenticated(), false);
+        assert.equal(server.requestsTo('token').length, 1);
+    });
+});
@@ -0,0 +1,138 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { installBrowserEnv } from './support/browser-env.js';
+import { createClient, disposeClients, followAuthorization, login } from './support/session.js';
+import { MockAuthServer } from './mock-server/mock-server.js';
+import { OAuth2Client } from '../src/oauth2-client.js';
+import { TokenRequestError } from '../src/oauth2-errors.js';
+
+const env = installBrowserEnv();
+const server = new MockAuthServer();
+
+before(() => server.start());
+after(() => server.stop());
+
+afterEach(async () => {
+    await disposeClients();
+    server.reset();
+    env.reset();
+});
+
+/**
+ * Names of the pending authorization transactions in sessionStorage
+ */
+function pendingTransactions(): string[] {
+    return [...Array(env.sessionStorage.length).keys()]
+        .map(i => env.sessionStorage.key(i)!)
+        .filter(name => name.includes(':tx:'));
+}
+
+describe('pushed authorization requests', () => {
+    it('pushes the parameters and redirects with only client_id and request_uri', async () => {
+        const client = createClient(server, { par: true });
+        await login(client, env);
+
+        const pushed = server.requestsTo('par')[0]!.params;
+        const authorization = new URL(env.lastNavigation()).searchParams;
+
+        assert.equal(pushed.get('code_challenge_method'), 'S256');
+        assert.ok(pushed.get('code_challenge'));
+        assert.ok(pushed.get('state'));
+        assert.deepEqual([...authorization.keys()].sort(), ['client_id', 'request_uri']);
+        assert.match(authorization.get('request_uri')!, /^urn:ietf:params:oauth:request_uri:/);
+        assert.ok(client.isAuthenticated());
+    });
+
+    it('sends the request in the URL when the provider has no PAR endpoint', async () => {
+        const client = createClient(server, { par: true, pushedAuthorizationRequestEndpoint: undefined });
+        await login(client, env);
+
+        assert.equal(server.requestsTo('par').length, 0);
+        assert.ok(new URL(env.lastNavigation()).searchParams.get('code_challenge'));
+        assert.ok(client.isAuthenticated());
+    });
+
+    it('keeps the transaction of a pushed request until its callback', async () => {
+        const client = createClient(server, { par: true });
+        await client.authorize();
+
+        const state = server.requestsTo('par')[0]!.params.get('state')!;
+        assert.deepEqual(pendingTransactions().map(name => name.endsWith(`:tx:${state}`)), [true]);
+
+        await client.handleCallback(await followAuthorization(env));
+        assert.deepEqual(pendingTransactions(), []);
+    });
+
+    it('pushes when the provider requires it, even without opting in', async () => {
+        const client = createClient(server, { requirePushedAuthorizationRequests: true });
+        await login(client, env);
+
+        assert.equal(server.requestsTo('par').length, 1);
+    });
+
+    it('fails when PAR is required but there is no endpoint', async () => {
+        const client = createClient(server, { requirePushedAuthorizationRequests: true, pushedAuthorizationRequestEndpoint: undefined });
+
+        await assert.rejects(client.authorize(), /requires pushed authorization requests/);
+        assert.deepEqual(pendingTransactions(), []);
+    });
+
+    it('reports a rejected push and discards the transaction', async () => {
+        const client = createClient(server, { par: true });
+        server.failNext('par', { status: 400, body: { error: 'invalid_request', error_description: 'Bad redirect_uri' } });
+
+        await assert.rejects(client.authorize(), (error: unknown) => {
+            assert.ok(error instanceof TokenRequestError);
+            assert.equal(error.code, 'invalid_request');
+            return true;
+        });
+        assert.deepEqual(pendingTransactions(), []);
+        assert.deepEqual(env.location.navigations, []);
+    });
+
+    it('picks up the PAR endpoint and requirement from discovery', async () => {
+        const strict = new MockAuthServer({ requirePar: true });
+        await strict.start();
+
+        try {
+            const client = await OAuth2Client.fromIssuer(strict.baseUrl, strict.clientId, 'http://localhost:4040/callback', {
+                storage: 'memory',
+                crossTabSync: false
+            });
+            await client.authorize();
+            const callback = await fetch(env.lastNavigation(), { redirect: 'manual' });
+            await client.handleCallback(callback.headers.get('Location')!);
+
+            assert.equal(strict.requestsTo('par').length, 1);
+            assert.ok(client.isAuthenticated());
+            await client.logout({ localOnly: true });
+        } finally {
+            await strict.stop();
+        }
+    });
+});
+
+describe('request objects', () => {
+    it('moves the parameters into the signed request object', async () => {
+        const signed: Record<string, unknown>[] = [];
+        const client = createClient(server, {
+            par: true,
+            requestObjectSigner: async claims => {
+                signed.push(claims);
+                // Unsigned stand-in; the mock server doesn't check signatures
+                const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+                return `${encode({ alg: 'none' })}.${encode(claims)}.`;
+            }
+        });
+        await login(client, env, { maxAge: 300 });
+
+        const claims = signed[0]!;
+        const pushed = server.requestsTo('par')[0]!.params;
+        assert.equal(claims.iss, server.clientId);
+        assert.equal(claims.aud, server.baseUrl);
+        assert.equal(claims.max_age, 300);
+        assert.ok(claims.code_challenge);
+        assert.deepEqual([...pushed.keys()].sort(), ['client_id', 'request', 'response_type', 'scope']);
+        assert.ok(client.isAuthenticated());
+    });
+});
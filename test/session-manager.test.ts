@@ -0,0 +1,196 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { installBrowserEnv } from './support/browser-env.js';
+import { createClient, disposeClients, login, nextEvent } from './support/session.js';
+import { MockAuthServer } from './mock-server/mock-server.js';
+import { OAuth2Client } from '../src/oauth2-client.js';
+import { SessionManager, SessionManagerEventMap, SessionManagerOptions } from '../src/session-manager.js';
+
+const env = installBrowserEnv();
+const server = new MockAuthServer();
+const managers: SessionManager[] = [];
+
+before(() => server.start());
+after(() => server.stop());
+
+afterEach(async () => {
+    managers.splice(0).forEach(manager => manager.dispose());
+    await disposeClients();
+    server.reset();
+    env.reset();
+});
+
+/**
+ * Create a session manager that signs out locally, disposed after the test
+ */
+function createManager(client: OAuth2Client, options: SessionManagerOptions): SessionManager {
+    const manager = new SessionManager(client, { logoutOptions: { localOnly: true }, ...options });
+    managers.push(manager);
+    return manager;
+}
+
+/**
+ * Resolve with the payload of the next event of a session manager
+ */
+function nextManagerEvent<K extends keyof SessionManagerEventMap>(manager: SessionManager, type: K): Promise<SessionManagerEventMap[K]> {
+    return new Promise(resolve => {
+        const unsubscribe = manager.on(type, event => {
+            unsubscribe();
+            resolve(event);
+        });
+    });
+}
+
+/**
+ * The session start the managers of a client share in localStorage
+ */
+function sessionStart(client: OAuth2Client): string | null {
+    return env.localStorage.getItem(`${client.getNamespace()}:session-start`);
+}
+
+describe('idle timeout', () => {
+    it('warns, then signs out after the idle period', async () => {
+        const client = createClient(server);
+        const manager = createManager(client, { idleTimeoutSeconds: 0.3, warningSeconds: 0.1 });
+        const warning = nextManagerEvent(manager, 'warning');
+        const timeout = nextManagerEvent(manager, 'timeout');
+        const logout = nextEvent(client, 'logout');
+
+        await login(client, env);
+
+        const { reason, logoutAt } = await warning;
+        assert.equal(reason, 'idle');
+        assert.ok(logoutAt - Date.now() <= 100);
+        assert.deepEqual(await timeout, { reason: 'idle' });
+        await logout;
+        assert.equal(client.isAuthenticated(), false);
+        assert.equal(sessionStart(client), null);
+    });
+
+    it('postpones the logout on activity', async () => {
+        const client = createClient(server);
+        const manager = createManager(client, { idleTimeoutSeconds: 0.5, warningSeconds: 0.1 });
+        await login(client, env);
+        const firstLogoutTime = manager.getLogoutTime()!;
+
+        await sleep(60);
+        manager.recordActivity();
+
+        assert.ok(manager.getLogoutTime()! > firstLogoutTime);
+    });
+
+    it('shares activity between tabs', async () => {
+        const client = createClient(server);
+        const manager = createManager(client, { idleTimeoutSeconds: 0.5, warningSeconds: 0.1 });
+        await login(client, env);
+
+        // Another tab: a client on the same storage
+        const otherClient = createClient(server);
+        const otherManager = createManager(otherClient, { idleTimeoutSeconds: 0.5, warningSeconds: 0.1 });
+        await otherClient.whenReady();
+        await sleep(60);
+        otherManager.recordActivity();
+
+        assert.equal(manager.getLogoutTime(), otherManager.getLogoutTime());
+    });
+
+    it('ignores activity during the warning, until the user chooses to stay signed in', async () => {
+        const client = createClient(server);
+        const manager = createManager(client, { idleTimeoutSeconds: 0.3, warningSeconds: 0.25 });
+        const warning = nextManagerEvent(manager, 'warning');
+        await login(client, env);
+        const { logoutAt } = await warning;
+
+        manager.recordActivity();
+        assert.equal(manager.getLogoutTime(), logoutAt);
+
+        const cancelled = nextManagerEvent(manager, 'warningCancelled');
+        manager.staySignedIn();
+        assert.deepEqual(await cancelled, { reason: 'idle' });
+        assert.ok(manager.getLogoutTime()! > logoutAt);
+        assert.ok(client.isAuthenticated());
+    });
+
+    it('signs out every tab that times out, contacting the server from one of them', async () => {
+        const client = createClient(server);
+        await login(client, env);
+        env.localStorage.setItem(`${client.getNamespace()}:last-activity`, String(Date.now() - 3600 * 1000));
+
+        // Two tabs opened on the idle session, without cross-tab sync to end each other's session
+        const tabs = [createClient(server), createClient(server)];
+        const options: SessionManagerOptions = { idleTimeoutSeconds: 60, logoutOptions: { endSession: false } };
+        const timeouts = tabs.map(tab => nextManagerEvent(createManager(tab, options), 'timeout'));
+        const logouts = tabs.map(tab => nextEvent(tab, 'logout'));
+
+        assert.deepEqual(await Promise.all(timeouts), [{ reason: 'idle' }, { reason: 'idle' }]);
+        await Promise.all(logouts);
+        await sleep(20);
+
+        assert.deepEqual(tabs.map(tab => tab.isAuthenticated()), [false, false]);
+        assert.deepEqual(await Promise.all(tabs.map(tab => tab.getValidAccessToken())), [null, null]);
+        const revoked = server.requestsTo('revoke').map(request => request.params.get('token_type_hint'));
+        assert.deepEqual(revoked, ['refresh_token', 'access_token']);
+    });
+
+    it('has no idle timeout unless one is configured', async () => {
+        const client = createClient(server);
+        const manager = createManager(client, { maxSessionSeconds: 3600 });
+        await login(client, env);
+
+        assert.ok(manager.getLogoutTime()! > Date.now() + 3500 * 1000);
+    });
+
+    it('does nothing without a session', async () => {
+        const client = createClient(server);
+        const manager = createManager(client, { idleTimeoutSeconds: 0.1 });
+        await client.whenReady();
+
+        assert.equal(manager.getLogoutTime(), null);
+        assert.equal(sessionStart(client), null);
+    });
+});
+
+describe('maximum session lifetime', () => {
+    it('signs out when the lifetime is over, however active the user is', async () => {
+        const client = createClient(server);
+        const manager = createManager(client, { idleTimeoutSeconds: 60, maxSessionSeconds: 0.3, warningSeconds: 0.2 });
+        const warning = nextManagerEvent(manager, 'warning');
+        const timeout = nextManagerEvent(manager, 'timeout');
+        await login(client, env);
+
+        assert.equal((await warning).reason, 'maxLifetime');
+        manager.staySignedIn();
+        await client.refreshAccessToken();
+
+        assert.deepEqual(await timeout, { reason: 'maxLifetime' });
+    });
+
+    it('keeps the session start through step-up logins and reloads', async () => {
+        const client = createClient(server);
+        createManager(client, { maxSessionSeconds: 3600 });
+        await login(client, env);
+        const start = sessionStart(client);
+
+        await sleep(10);
+        await login(client, env, { acrValues: 'mfa' });
+        const reloaded = createClient(server);
+        const reloadedManager = createManager(reloaded, { maxSessionSeconds: 3600 });
+        await reloaded.whenReady();
+
+        assert.ok(start);
+        assert.equal(sessionStart(client), start);
+        assert.ok(reloadedManager.getLogoutTime());
+    });
+
+    it('signs out on load when the lifetime ran out while the app was closed', async () => {
+        const client = createClient(server);
+        await login(client, env);
+        env.localStorage.setItem(`${client.getNamespace()}:session-start`, String(Date.now() - 2 * 3600 * 1000));
+
+        const reloaded = createClient(server);
+        const manager = createManager(reloaded, { maxSessionSeconds: 3600 });
+
+        assert.deepEqual(await nextManagerEvent(manager, 'timeout'), { reason: 'maxLifetime' });
+    });
+});
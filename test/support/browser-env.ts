@@ -0,0 +1,149 @@
+/**
+ * The parts of the browser the clients touch, for running them under Node:
+ * window.location, localStorage, sessionStorage and a few window methods.
+ * fetch, crypto, TextEncoder, BroadcastChannel and atob/btoa are Node built-ins.
+ */
+
+/**
+ * In-memory Web Storage
+ */
+export class MemoryStorage {
+    private items = new Map<string, string>();
+
+    get length(): number {
+        return this.items.size;
+    }
+
+    key(index: number): string | null {
+        return [...this.items.keys()][index] ?? null;
+    }
+
+    getItem(key: string): string | null {
+        return this.items.get(key) ?? null;
+    }
+
+    setItem(key: string, value: string): void {
+        this.items.set(key, String(value));
+    }
+
+    removeItem(key: string): void {
+        this.items.delete(key);
+    }
+
+    clear(): void {
+        this.items.clear();
+    }
+}
+
+/**
+ * window.location of a page that never unloads: assigning href records the navigation
+ * instead of leaving the page, so tests can follow it themselves
+ */
+export class FakeLocation {
+    private url: URL;
+    readonly navigations: string[] = [];
+
+    constructor(href: string) {
+        this.url = new URL(href);
+    }
+
+    get href(): string {
+        return this.url.href;
+    }
+
+    set href(value: string) {
+        this.navigations.push(new URL(value, this.url).href);
+    }
+
+    get origin(): string {
+        return this.url.origin;
+    }
+
+    get pathname(): string {
+        return this.url.pathname;
+    }
+
+    get search(): string {
+        return this.url.search;
+    }
+
+    get hash(): string {
+        return this.url.hash;
+    }
+
+    assign(value: string): void {
+        this.href = value;
+    }
+
+    toString(): string {
+        return this.href;
+    }
+}
+
+export interface BrowserEnv {
+    location: FakeLocation;
+    localStorage: MemoryStorage;
+    sessionStorage: MemoryStorage;
+    // URL of the last navigation, e.g. the authorization request made by authorize()
+    lastNavigation(): string;
+    // Forget storage and navigations, like a fresh browser profile
+    reset(): void;
+}
+
+export const APP_ORIGIN = 'http://localhost:4040';
+
+/**
+ * Install the browser globals, once per test file
+ */
+export function installBrowserEnv(href: string = `${APP_ORIGIN}/`): BrowserEnv {
+    const localStorage = new MemoryStorage();
+    const sessionStorage = new MemoryStorage();
+    let location = new FakeLocation(href);
+
+    const fakeWindow = {
+        get location() {
+            return location;
+        },
+        set location(value: FakeLocation) {
+            location = value;
+        },
+        history: {
+            replaceState: () => undefined
+        },
+        // Popups, iframes and storage events don't exist here
+        open: () => null,
+        opener: null,
+        addEventListener: () => undefined,
+        removeEventListener: () => undefined,
+        close: () => undefined
+    };
+
+    define('window', fakeWindow);
+    define('localStorage', localStorage);
+    define('sessionStorage', sessionStorage);
+    define('document', { title: '' });
+
+    return {
+        get location() {
+            return location;
+        },
+        localStorage,
+        sessionStorage,
+        lastNavigation() {
+            const url = location.navigations[location.navigations.length - 1];
+            if (!url) {
+                throw new Error('No navigation happened');
+            }
+            return url;
+        },
+        reset() {
+            localStorage.clear();
+            sessionStorage.clear();
+            location = new FakeLocation(href);
+        }
+    };
+}
+
+function define(name: string, value: unknown): void {
+    Object.defineProperty(globalThis, name, { value, configurable: true, writable: true });
+}
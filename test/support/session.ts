@@ -0,0 +1,90 @@
+import { AuthConfig, AuthEventMap, AuthEventType, AuthorizeOptions, CallbackResult, OAuth2Client } from '../../src/oauth2-client.js';
+import { MockAuthServer } from '../mock-server/mock-server.js';
+import { APP_ORIGIN, BrowserEnv } from './browser-env.js';
+
+const clients = new Set<OAuth2Client>();
+
+/**
+ * Client configuration for the mock server, with the endpoints of config.json's "demo" provider.
+ * Cross-tab sync is off, its BroadcastChannel would keep the test process alive.
+ */
+export function clientConfig(server: MockAuthServer, overrides: Partial<AuthConfig> = {}): AuthConfig {
+    return {
+        clientId: server.clientId,
+        redirectUri: `${APP_ORIGIN}/callback`,
+        baseUrl: server.baseUrl,
+        issuer: server.baseUrl,
+        authorizationEndpoint: '/api/v1/oauth2/authorize',
+        tokenEndpoint: '/api/v1/oauth2/token',
+        deviceAuthorizationEndpoint: '/api/v1/oauth2/device_authorization',
+        pushedAuthorizationRequestEndpoint: '/api/v1/oauth2/par',
+        userinfoEndpoint: '/api/v1/oauth2/userinfo',
+        revocationEndpoint: '/api/v1/oauth2/revoke',
+        jwksUri: '/api/v1/oauth2/jwks',
+        scope: 'openid read write',
+        storage: 'local',
+        crossTabSync: false,
+        ...overrides
+    };
+}
+
+/**
+ * Create a client for the mock server, logged out locally after the test by disposeClients()
+ */
+export function createClient(server: MockAuthServer, overrides: Partial<AuthConfig> = {}): OAuth2Client {
+    const client = new OAuth2Client(clientConfig(server, overrides));
+    clients.add(client);
+    return client;
+}
+
+/**
+ * Send the authorization request the client navigated to, returning the callback URL the server redirects to
+ */
+export async function followAuthorization(env: BrowserEnv): Promise<string> {
+    const response = await fetch(env.lastNavigation(), { redirect: 'manual' });
+    const location = response.headers.get('Location');
+    if (response.status !== 302 || !location) {
+        throw new Error(`Authorization request failed with HTTP ${response.status}: ${await response.text()}`);
+    }
+    return location;
+}
+
+/**
+ * Log in through the mock server: authorize, follow the redirect and handle the callback
+ */
+export async function login(client: OAuth2Client, env: BrowserEnv, options: AuthorizeOptions = {}): Promise<CallbackResult> {
+    await client.authorize(options);
+    return client.handleCallback(await followAuthorization(env));
+}
+
+/**
+ * End the sessions of all clients created by createClient(), cancelling their refresh timers
+ */
+export async function disposeClients(): Promise<void> {
+    await Promise.all([...clients].map(client => client.logout({ localOnly: true })));
+    clients.clear();
+}
+
+/**
+ * Resolve with the next session change of a client
+ */
+export function nextSessionChange(client: OAuth2Client): Promise<string> {
+    return new Promise(resolve => {
+        const unsubscribe = client.onSessionChange(event => {
+            unsubscribe();
+            resolve(event.type);
+        });
+    });
+}
+
+/**
+ * Resolve with the payload of the next event of a type
+ */
+export function nextEvent<K extends AuthEventType>(client: OAuth2Client, type: K): Promise<AuthEventMap[K]> {
+    return new Promise(resolve => {
+        const unsubscribe = client.on(type, event => {
+            unsubscribe();
+            resolve(event);
+        });
+    });
+}